@@ -1,506 +1,970 @@
 'use client';
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Stage, Layer, Image as KonvaImage, Transformer, Rect } from 'react-konva';
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  Stage,
+  Layer,
+  Group,
+  Image as KonvaImage,
+  Text as KonvaText,
+  Transformer,
+  Rect,
+  Ellipse,
+  Path,
+  Arrow,
+  Circle,
+  Line,
+} from 'react-konva';
 import Konva from 'konva';
 import useImage from 'use-image';
-import dynamic from 'next/dynamic';
 import NextImage from 'next/image';
-
-interface PageInfo {
-  pageNumber: number;
-  canvas: HTMLCanvasElement;
-  selected: boolean;
-  extractedImages?: ExtractedImage[];
-}
-
-interface ExtractedImage {
-  id: string;
-  src: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  pageNumber: number;
-  selected: boolean;
-}
-
-interface CanvasImage {
-  id: string;
-  src: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  scaleX: number;
-  scaleY: number;
-  rotation: number;
-  cropX?: number;
-  cropY?: number;
-  cropWidth?: number;
-  cropHeight?: number;
-}
+import { saveAs } from 'file-saver';
+import {
+  Artboard,
+  CanvasImage,
+  CanvasFreehand,
+  CanvasGroup,
+  CanvasLine,
+  CanvasObject,
+  CanvasShape,
+  CanvasText,
+  ExtractedImage,
+  Guide,
+  PageInfo,
+  PdfPageRef,
+  SourceDocument,
+} from '@/lib/types';
+import { extractPageImages } from '@/lib/imageExtraction';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import {
+  PageRaster,
+  RenderedPage,
+  createLruCache,
+  pageKey,
+  renderPageToCanvas,
+  renderThumbnail,
+  sharpRenderScale,
+} from '@/lib/pageRenderer';
+import { EXPORT_PAGE_SIZES, ExportPageSize, PageOrientation, exportArtboardsToPdf } from '@/lib/pdfExport';
+import { createArtboard, createGuide, duplicateArtboard, getArtboardGuides, moveArtboard, nextArtboardName } from '@/lib/document';
+import { Unit, formatUnit } from '@/lib/units';
+import PageStrip from '@/components/PageStrip';
+import ArtboardSettings from '@/components/ArtboardSettings';
+import Rulers, { RULER_SIZE } from '@/components/Rulers';
+import Minimap from '@/components/Minimap';
+import { Bounds, boundsIntersect, getObjectBounds, unionBounds } from '@/lib/geometry';
+import { SnapIndex, SnapLines, SpacingHint, createSnapIndex, snapBox, snapPoint as snapPointToTargets } from '@/lib/snapping';
+import { ViewState, centerOn, fitBounds, getVisibleRect, zoomAt } from '@/lib/viewport';
+import {
+  EMPTY_HISTORY,
+  HistoryCommand,
+  HistoryState,
+  addObjectsCommand,
+  pickAttrs,
+  pushCommand,
+  removeObjectsCommand,
+  reorderObjectsCommand,
+  replaceObjectsCommand,
+  replaceArtboardsCommand,
+  updateGuidesCommand,
+  updateObjectCommand,
+  updateObjectsCommand,
+} from '@/lib/history';
+import HistoryPanel from '@/components/HistoryPanel';
+import LayersPanel from '@/components/LayersPanel';
+import { bringToFront, moveLayer, sendToBack } from '@/lib/layers';
+import { createGroup, flattenObjects, ungroupChildren } from '@/lib/groups';
+import AlignControls from '@/components/AlignControls';
+import GuidesPanel from '@/components/GuidesPanel';
+import TransformInspector from '@/components/TransformInspector';
+import PageOrganizer, { MergedDocument } from '@/components/PageOrganizer';
+import { OrganizerPage, buildOrganizedPdf, createOrganizerPage } from '@/lib/pageOrganizer';
+import SplitControls from '@/components/SplitControls';
+import SourceLibrary from '@/components/SourceLibrary';
+import RenderProgress from '@/components/RenderProgress';
+import { chunkEvery, getTopLevelBookmarks, numberedParts, partFileName, splitBefore } from '@/lib/pdfSplit';
+import { createZip } from '@/lib/zip';
+import { FlipAxis, flipObject, resizeObject, rotateObject } from '@/lib/transforms';
+import {
+  ALIGN_MODES,
+  AlignMode,
+  AlignReference,
+  DistributeAxis,
+  Placement,
+  alignObjects,
+  distributeObjects,
+  getReferenceBounds,
+} from '@/lib/align';
+import { PROJECT_EXTENSION, Project, isProjectFile, parseProject, serializeProject } from '@/lib/project';
+import {
+  SessionInfo,
+  createSessionId,
+  deleteSession,
+  listSessions,
+  loadSession,
+  renameSession,
+  saveSession,
+} from '@/lib/sessionStore';
+import SessionManager from '@/components/SessionManager';
+import CropOverlay from '@/components/CropOverlay';
+import TextEditor from '@/components/TextEditor';
+import TextSettings from '@/components/TextSettings';
+import { createTextObject, withTextChanges } from '@/lib/text';
+import {
+  DEFAULT_SHAPE_SIZE,
+  SHAPE_TOOLS,
+  arrowHeadSize,
+  calloutPath,
+  createLine,
+  createShape,
+  dashArray,
+  lineEndpoints,
+  lineGeometry,
+  shapePath,
+} from '@/lib/shapes';
+import { FREEHAND_STYLES, StrokeSample, createFreehandStroke, freehandPath } from '@/lib/freehand';
+import ToolPalette, { Tool } from '@/components/ToolPalette';
+import ShapeSettings from '@/components/ShapeSettings';
+import { applyToPoint, nodeMatrix } from '@/lib/matrix';
+import { CROP_ASPECTS, CropAspect, applyCropFrame, clampCropFrame, fitCropAspect, getUncroppedBox } from '@/lib/crop';
+
+// Crop values are in pixels of the preview raster; a raster rendered at `factor`
+// times the preview's scale needs them scaled to match
+const scaledCrop = (image: CanvasImage, factor: number) => ({
+  cropX: image.cropX && image.cropX * factor,
+  cropY: image.cropY && image.cropY * factor,
+  cropWidth: image.cropWidth && image.cropWidth * factor,
+  cropHeight: image.cropHeight && image.cropHeight * factor,
+});
 
 const CanvasImageComponent = ({ 
   image, 
-  isSelected, 
+  hidden,
+  raster,
   onSelect, 
-  onChange,
-  applySnapping,
-  onSnapGuides,
-  getSnapPoints,
-  snapTolerance
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  onTransform
 }: {
   image: CanvasImage;
-  isSelected: boolean;
-  onSelect: () => void;
-  onChange: (newAttrs: Partial<CanvasImage>) => void;
-  applySnapping: (imageId: string, x: number, y: number, width: number, height: number) => {x: number, y: number};
-  onSnapGuides: (guides: {x: number[], y: number[]}) => void;
-  getSnapPoints: (excludeId?: string) => {vertical: number[], horizontal: number[]};
-  snapTolerance: number;
+  // Hidden while the crop editor shows the image instead
+  hidden: boolean;
+  // Sharper re-render of a placed page, shown instead of `src`
+  raster?: PageRaster;
+  onSelect: (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => void;
+  onDragStart: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onDragMove: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onTransform: (e: Konva.KonvaEventObject<Event>) => void;
 }) => {
   const [img] = useImage(image.src);
-  const shapeRef = useRef<Konva.Image>(null);
-  const trRef = useRef<Konva.Transformer>(null);
-
-  React.useEffect(() => {
-    if (isSelected && trRef.current && shapeRef.current) {
-      trRef.current.nodes([shapeRef.current]);
-      trRef.current.getLayer()?.batchDraw();
-    }
-  }, [isSelected]);
+  const factor = raster && image.source ? raster.scale / image.source.renderScale : 1;
 
+  // Selection, dragging and the shared transformer are handled by the editor,
+  // which needs to see the whole selection at once
   return (
-    <>
-      <KonvaImage
-        ref={shapeRef}
-        {...image}
-        image={img}
-        draggable
-        onClick={onSelect}
-        onTap={onSelect}
-        onDragStart={(e) => {
-          try {
-            // Show snap guides when starting to drag
-            const node = e.target;
-            const snapPoints = getSnapPoints(image.id);
-            if (snapPoints && snapPoints.vertical && snapPoints.horizontal) {
-              onSnapGuides({
-                x: snapPoints.vertical.filter(x => Math.abs(x - node.x()) <= snapTolerance * 3),
-                y: snapPoints.horizontal.filter(y => Math.abs(y - node.y()) <= snapTolerance * 3)
-              });
-            }
-          } catch (error) {
-            console.error('Drag start error:', error);
-          }
-        }}
-        onDragMove={(e) => {
-          try {
-            // Apply snapping during drag
-            const node = e.target;
-            const snapped = applySnapping(image.id, node.x(), node.y(), image.width, image.height);
-            if (snapped && typeof snapped.x === 'number' && typeof snapped.y === 'number') {
-              node.x(snapped.x);
-              node.y(snapped.y);
-              
-              // Update snap guides
-              if (Math.abs(snapped.x - node.x()) > 1 || Math.abs(snapped.y - node.y()) > 1) {
-                onSnapGuides({
-                  x: [snapped.x, snapped.x + image.width],
-                  y: [snapped.y, snapped.y + image.height]
-                });
-              }
-            }
-          } catch (error) {
-            console.error('Drag move error:', error);
-          }
-        }}
-        onDragEnd={(e) => {
-          try {
-            const node = e.target;
-            const snapped = applySnapping(image.id, node.x(), node.y(), image.width, image.height);
-            if (snapped && typeof snapped.x === 'number' && typeof snapped.y === 'number') {
-              onChange({
-                x: snapped.x,
-                y: snapped.y,
-              });
-            }
-            // Clear snap guides
-            onSnapGuides({x: [], y: []});
-          } catch (error) {
-            console.error('Drag end error:', error);
-            // Clear snap guides on error too
-            onSnapGuides({x: [], y: []});
-          }
-        }}
-        onTransformStart={(e) => {
-          try {
-            // Show relevant snap guides when starting transform
-            const node = shapeRef.current;
-            if (node) {
-              const snapPoints = getSnapPoints(image.id);
-              if (snapPoints && snapPoints.vertical && snapPoints.horizontal) {
-                onSnapGuides({
-                  x: snapPoints.vertical.slice(0, 10), // Limit to prevent performance issues
-                  y: snapPoints.horizontal.slice(0, 10)
-                });
-              }
-            }
-          } catch (error) {
-            console.error('Transform start error:', error);
-            onSnapGuides({x: [], y: []});
-          }
-        }}
-        onTransform={(e) => {
-          // Apply snapping during transform
-          const node = shapeRef.current;
-          if (node) {
-            const scaleX = node.scaleX();
-            const scaleY = node.scaleY();
-            
-            // Calculate current dimensions
-            const newWidth = Math.max(5, image.width * scaleX);
-            const newHeight = Math.max(5, image.height * scaleY);
-            
-            // Get the bounding box after transform
-            const box = node.getClientRect();
-            
-            // Apply snapping to the transformed bounds
-            const snapped = applySnapping(image.id, box.x, box.y, box.width, box.height);
-            
-            // Adjust position based on snapping
-            if (Math.abs(box.x - snapped.x) > 1 || Math.abs(box.y - snapped.y) > 1) {
-              node.x(node.x() + (snapped.x - box.x));
-              node.y(node.y() + (snapped.y - box.y));
-              
-              // Show active snap guides
-              onSnapGuides({
-                x: [snapped.x, snapped.x + box.width],
-                y: [snapped.y, snapped.y + box.height]
-              });
-            }
-          }
-        }}
-        onTransformEnd={(e) => {
-          const node = shapeRef.current;
-          if (node) {
-            const scaleX = node.scaleX();
-            const scaleY = node.scaleY();
-            
-            const newWidth = Math.max(5, node.width() * scaleX);
-            const newHeight = Math.max(5, node.height() * scaleY);
-            
-            node.scaleX(1);
-            node.scaleY(1);
-            
-            const snapped = applySnapping(image.id, node.x(), node.y(), newWidth, newHeight);
-            
-            onChange({
-              x: snapped.x,
-              y: snapped.y,
-              width: newWidth,
-              height: newHeight,
-              rotation: node.rotation(),
-            });
-            
-            // Clear snap guides
-            onSnapGuides({x: [], y: []});
-          }
-        }}
-      />
-      {isSelected && (
-        <Transformer
-          ref={trRef}
-          flipEnabled={false}
-          boundBoxFunc={(oldBox, newBox) => {
-            if (Math.abs(newBox.width) < 5 || Math.abs(newBox.height) < 5) {
-              return oldBox;
-            }
-            return newBox;
-          }}
+    <KonvaImage
+      {...image}
+      {...scaledCrop(image, factor)}
+      name="canvas-object"
+      image={raster?.canvas ?? img}
+      visible={!hidden && !image.hidden}
+      draggable={!image.locked}
+      onMouseDown={onSelect}
+      onTouchStart={onSelect}
+      onDragStart={onDragStart}
+      onDragMove={onDragMove}
+      onDragEnd={onDragEnd}
+      onTransform={onTransform}
+    />
+  );
+};
+
+const CanvasTextComponent = ({
+  text,
+  hidden,
+  onSelect,
+  onEdit,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  onTransform
+}: {
+  text: CanvasText;
+  // Hidden while the inline editor is open
+  hidden: boolean;
+  onSelect: (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => void;
+  onEdit: () => void;
+  onDragStart: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onDragMove: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onTransform: (e: Konva.KonvaEventObject<Event>) => void;
+}) => (
+  <KonvaText
+    id={text.id}
+    name="canvas-object"
+    x={text.x}
+    y={text.y}
+    width={text.width}
+    scaleX={text.scaleX}
+    scaleY={text.scaleY}
+    rotation={text.rotation}
+    text={text.text}
+    fontFamily={text.fontFamily}
+    fontSize={text.fontSize}
+    fontStyle={text.fontWeight}
+    fill={text.fill}
+    align={text.align}
+    lineHeight={text.lineHeight}
+    visible={!hidden && !text.hidden}
+    draggable={!text.locked}
+    onMouseDown={onSelect}
+    onTouchStart={onSelect}
+    onDblClick={onEdit}
+    onDblTap={onEdit}
+    onDragStart={onDragStart}
+    onDragMove={onDragMove}
+    onDragEnd={onDragEnd}
+    onTransform={onTransform}
+  />
+);
+
+// Pages are identified by their document and page number
+type PageRef = { documentId: string; pageNumber: number };
+const isSamePage = (a: PageRef, b: PageRef) => a.documentId === b.documentId && a.pageNumber === b.pageNumber;
+
+type ObjectHandlers = {
+  onSelect: (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => void;
+  onDragStart: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onDragMove: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => void;
+  onTransform: (e: Konva.KonvaEventObject<Event>) => void;
+};
+
+// Konva props shared by shapes and lines
+const strokeProps = (object: CanvasShape | CanvasLine, { onSelect, ...handlers }: ObjectHandlers) => ({
+  id: object.id,
+  name: 'canvas-object',
+  x: object.x,
+  y: object.y,
+  scaleX: object.scaleX,
+  scaleY: object.scaleY,
+  rotation: object.rotation,
+  stroke: object.stroke,
+  strokeWidth: object.strokeWidth,
+  dash: dashArray(object.dash, object.strokeWidth),
+  opacity: object.opacity,
+  // Keep thin outlines easy to grab
+  hitStrokeWidth: Math.max(10, object.strokeWidth),
+  visible: !object.hidden,
+  draggable: !object.locked,
+  onMouseDown: onSelect,
+  onTouchStart: onSelect,
+  ...handlers,
+});
+
+const CanvasShapeComponent = ({ shape, ...handlers }: { shape: CanvasShape } & ObjectHandlers) => {
+  const props = { ...strokeProps(shape, handlers), fill: shape.fill ?? undefined };
+  switch (shape.kind) {
+    case 'ellipse':
+      // Offset so x/y is the top left corner like every other object
+      return (
+        <Ellipse
+          {...props}
+          radiusX={shape.width / 2}
+          radiusY={shape.height / 2}
+          offsetX={-shape.width / 2}
+          offsetY={-shape.height / 2}
         />
-      )}
-    </>
+      );
+    case 'callout':
+      return <Path {...props} data={shapePath(shape)} />;
+    default:
+      return <Rect {...props} width={shape.width} height={shape.height} />;
+  }
+};
+
+const CanvasFreehandComponent = ({ stroke, onSelect, ...handlers }: { stroke: CanvasFreehand } & ObjectHandlers) => (
+  <Path
+    id={stroke.id}
+    name="canvas-object"
+    data={freehandPath(stroke)}
+    x={stroke.x}
+    y={stroke.y}
+    scaleX={stroke.scaleX}
+    scaleY={stroke.scaleY}
+    rotation={stroke.rotation}
+    fill={stroke.stroke}
+    opacity={stroke.opacity}
+    // Multiply keeps text under a highlighter readable
+    globalCompositeOperation={stroke.tool === 'highlighter' ? 'multiply' : undefined}
+    visible={!stroke.hidden}
+    draggable={!stroke.locked}
+    onMouseDown={onSelect}
+    onTouchStart={onSelect}
+    {...handlers}
+  />
+);
+
+const CanvasLineComponent = ({ line, ...handlers }: { line: CanvasLine } & ObjectHandlers) => {
+  const headSize = arrowHeadSize(line.strokeWidth);
+  return (
+    <Arrow
+      {...strokeProps(line, handlers)}
+      points={line.points}
+      fill={line.stroke}
+      pointerAtBeginning={line.arrowStart}
+      pointerAtEnding={line.arrowEnd}
+      pointerLength={headSize * Math.cos(Math.PI / 6)}
+      pointerWidth={headSize}
+    />
   );
 };
 
+const NO_HANDLERS: ObjectHandlers = {
+  onSelect: () => {},
+  onDragStart: () => {},
+  onDragMove: () => {},
+  onDragEnd: () => {},
+  onTransform: () => {},
+};
+
+// Children only move with their group, so they render locked and without
+// handlers; presses bubble up to the group node
+const GroupChild = ({ object, rasters }: { object: CanvasObject; rasters: Record<string, PageRaster> }) => {
+  const child = { ...object, locked: true };
+  switch (child.type) {
+    case 'image':
+      return <CanvasImageComponent image={child} hidden={false} raster={rasters[child.id]} {...NO_HANDLERS} />;
+    case 'text':
+      return <CanvasTextComponent text={child} hidden={false} onEdit={() => {}} {...NO_HANDLERS} />;
+    case 'shape':
+      return <CanvasShapeComponent shape={child} {...NO_HANDLERS} />;
+    case 'line':
+      return <CanvasLineComponent line={child} {...NO_HANDLERS} />;
+    case 'freehand':
+      return <CanvasFreehandComponent stroke={child} {...NO_HANDLERS} />;
+    case 'group':
+      return <CanvasGroupComponent group={child} rasters={rasters} {...NO_HANDLERS} />;
+  }
+};
+
+// `rasters` holds sharper re-renders of placed pages by object id
+const CanvasGroupComponent = ({
+  group,
+  rasters,
+  onSelect,
+  ...handlers
+}: { group: CanvasGroup; rasters: Record<string, PageRaster> } & ObjectHandlers) => (
+  <Group
+    id={group.id}
+    name="canvas-object"
+    x={group.x}
+    y={group.y}
+    scaleX={group.scaleX}
+    scaleY={group.scaleY}
+    rotation={group.rotation}
+    visible={!group.hidden}
+    draggable={!group.locked}
+    onMouseDown={onSelect}
+    onTouchStart={onSelect}
+    {...handlers}
+  >
+    {group.children.map(child => <GroupChild key={child.id} object={child} rasters={rasters} />)}
+  </Group>
+);
+
 export default function PDFCanvasEditor() {
   const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [sourceDocuments, setSourceDocuments] = useState<Record<string, SourceDocument>>({});
   const [pages, setPages] = useState<PageInfo[]>([]);
+  // Low resolution previews by pageKey, filled in as they render
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [renderProgress, setRenderProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const renderQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Bumped to cancel queued rendering
+  const renderGenerationRef = useRef<number>(0);
+  const pdfDocumentsRef = useRef(new Map<string, PDFDocumentProxy>());
+  // Placed pages re-rendered to match their on-screen size, by object id
+  const [pageRasters, setPageRasters] = useState<Record<string, PageRaster>>({});
+  const sharpenGenerationRef = useRef<number>(0);
+  const transformSharpenTimerRef = useRef<number | undefined>(undefined);
   const [selectedPages, setSelectedPages] = useState<PageInfo[]>([]);
-  const [canvasImages, setCanvasImages] = useState<CanvasImage[]>([]);
-  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [artboards, setArtboards] = useState<Artboard[]>(() => [createArtboard('Page 1')]);
+  const [activeArtboardId, setActiveArtboardId] = useState<string>(() => artboards[0].id);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [historyPanelOpen, setHistoryPanelOpen] = useState<boolean>(false);
+  const [layersPanelOpen, setLayersPanelOpen] = useState<boolean>(false);
+  const [guidesPanelOpen, setGuidesPanelOpen] = useState<boolean>(false);
+  // Guide being dragged out of a ruler; position is null while still over the ruler
+  const [guideDraft, setGuideDraft] = useState<{ axis: Guide['axis']; position: number | null } | null>(null);
+  const [alignReference, setAlignReference] = useState<AlignReference>('selection');
+  const [aspectLocked, setAspectLocked] = useState<boolean>(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const [tool, setTool] = useState<Tool>('select');
+  const freehandTool = tool === 'pen' || tool === 'highlighter' ? tool : null;
+  // Pointer samples of the stroke being drawn with the pen or highlighter
+  const [freehandSamples, setFreehandSamples] = useState<StrokeSample[] | null>(null);
+  // Shape being drawn with a shape tool, in layout coordinates
+  const [drawing, setDrawing] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
   const [cropMode, setCropMode] = useState<boolean>(false);
-  const [cropRect, setCropRect] = useState<{x: number, y: number, width: number, height: number} | null>(null);
+  // Crop frame in the cropped image's local units, see lib/crop
+  const [cropRect, setCropRect] = useState<Bounds | null>(null);
+  const [cropNaturalSize, setCropNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [cropAspect, setCropAspect] = useState<CropAspect>('free');
   const [snapEnabled, setSnapEnabled] = useState<boolean>(true);
-  const [activeSnapGuides, setActiveSnapGuides] = useState<{x: number[], y: number[]}>({x: [], y: []});
+  const [activeSnapGuides, setActiveSnapGuides] = useState<SnapLines>({x: [], y: []});
+  const [spacingHints, setSpacingHints] = useState<SpacingHint[]>([]);
   const [multiSelectMode, setMultiSelectMode] = useState<boolean>(true);
   const [bulkImportMode, setBulkImportMode] = useState<boolean>(false);
   const [imageSelectionMode, setImageSelectionMode] = useState<boolean>(false);
   const [extractedImages, setExtractedImages] = useState<ExtractedImage[]>([]);
-  const [selectedExtractedImages, setSelectedExtractedImages] = useState<ExtractedImage[]>([]);
   const [bottomBarMultiSelect, setBottomBarMultiSelect] = useState<boolean>(true);
   const [selectedBottomBarImages, setSelectedBottomBarImages] = useState<PageInfo[]>([]);
   const [pageSelectionModalOpen, setPageSelectionModalOpen] = useState<boolean>(false);
+  const [pageOrganizerOpen, setPageOrganizerOpen] = useState<boolean>(false);
+  const [libraryPanelOpen, setLibraryPanelOpen] = useState<boolean>(false);
+  // Indexes into `pages` where a split part starts
+  const [splitBoundaries, setSplitBoundaries] = useState<number[]>([]);
+  const [isSplitting, setIsSplitting] = useState<boolean>(false);
+  const [exportPageSize, setExportPageSize] = useState<ExportPageSize>('artboard');
+  const [displayUnit, setDisplayUnit] = useState<Unit>('mm');
+  const [exportOrientation, setExportOrientation] = useState<PageOrientation>('landscape');
+  const [isExportingPdf, setIsExportingPdf] = useState<boolean>(false);
+  // Autosave target; a new id is used whenever a different document is opened
+  const [sessionId, setSessionId] = useState<string>(() => createSessionId());
+  const [sessionName, setSessionName] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [sessionManagerOpen, setSessionManagerOpen] = useState<boolean>(false);
+  const [restorableSession, setRestorableSession] = useState<SessionInfo | null>(null);
   const stageRef = useRef<Konva.Stage>(null);
+  const contentLayerRef = useRef<Konva.Layer>(null);
+  const transformerRef = useRef<Konva.Transformer>(null);
+  // Rubber-band selection in layout coordinates
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const marqueeOriginRef = useRef<{ x: number; y: number } | null>(null);
+  // Start positions of the objects in the current drag, keyed by id
+  const groupDragRef = useRef<{
+    leaderId: string;
+    ids: string[];
+    start: Record<string, { x: number; y: number }>;
+    bounds: Bounds;
+    delta: { x: number; y: number };
+    ended: boolean;
+  } | null>(null);
+
+  // The canvas always edits the active artboard's objects
+  const activeArtboard = artboards.find(artboard => artboard.id === activeArtboardId) ?? artboards[0];
+  const canvasObjects = activeArtboard.objects;
+  // Single-object tools such as crop work on a lone selection only
+  const selectedObjectId = selectedIds.length === 1 ? selectedIds[0] : null;
+  const selectedObjects = canvasObjects.filter(object => selectedIds.includes(object.id));
+  const lockedIds = canvasObjects.filter(object => object.locked).map(object => object.id);
+  const selectedText = selectedObjects.length === 1 && selectedObjects[0].type === 'text' ? selectedObjects[0] : null;
+  const selectedVector = selectedObjects.length === 1 && ['shape', 'line', 'freehand'].includes(selectedObjects[0].type)
+    ? selectedObjects[0] as CanvasShape | CanvasLine | CanvasFreehand
+    : null;
+  const editingText = canvasObjects.find((object): object is CanvasText => object.id === editingTextId && object.type === 'text');
+
+  // Every document change goes through a command so it can be undone
+  const executeCommand = (command: HistoryCommand) => {
+    setArtboards(prev => command.apply(prev));
+    setHistory(prev => pushCommand(prev, command));
+  };
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Snapping configuration
   const SNAP_TOLERANCE = 10;
   const GRID_SIZE = 20;
+  // Space between the canvas area's top left corner and the artboard, leaving room for the rulers
+  const STAGE_PADDING = RULER_SIZE + 20;
+  const ZOOM_STEP = 1.2;
+  // Milliseconds of inactivity before the session is written to IndexedDB
+  const AUTOSAVE_DELAY = 1000;
+
+  // Stage pan/zoom; layout coordinates are unaffected, only the stage transform changes
+  const [view, setView] = useState<ViewState>({ x: STAGE_PADDING, y: STAGE_PADDING, scale: 1 });
+  const [spacePressed, setSpacePressed] = useState<boolean>(false);
+  const pinchRef = useRef<{ distance: number; center: { x: number; y: number } } | null>(null);
+  // Tolerances are meant in screen pixels
+  const [snapTolerancePx, setSnapTolerancePx] = useState<number>(SNAP_TOLERANCE);
+  const snapTolerance = snapTolerancePx / view.scale;
+  // pdf.js viewport scale used for page previews
+  const PAGE_RENDER_SCALE = 1.5;
+  // Full resolution page rasters kept for placing pages again
+  const PAGE_CACHE_SIZE = 24;
+  const pageRenderCacheRef = useRef(createLruCache<RenderedPage>(PAGE_CACHE_SIZE));
+  // Sharper re-renders of placed pages, by page and scale. Grows to hold every
+  // page sharpened on screen at once, so a pass never evicts its own rasters.
+  const PAGE_RASTER_CACHE_SIZE = 8;
+  const pageRasterCacheRef = useRef(createLruCache<HTMLCanvasElement>(PAGE_RASTER_CACHE_SIZE));
+  // Placed pages are re-rendered once zooming or a transform pauses this long, in ms
+  const SHARPEN_DELAY = 300;
+  const EXPORT_PIXEL_RATIO = 3;
+
+  // Snap targets for everything except `excludeIds`, reused until the page's objects change
+  const snapIndexCacheRef = useRef<{ objects: CanvasObject[]; artboard: Artboard; key: string; index: SnapIndex } | null>(null);
+  const getSnapIndex = (excludeIds: string[] = []) => {
+    const key = excludeIds.join('|');
+    const cached = snapIndexCacheRef.current;
+    if (cached && cached.objects === canvasObjects && cached.artboard === activeArtboard && cached.key === key) {
+      return cached.index;
+    }
+    const index = createSnapIndex(
+      canvasObjects
+        .filter(object => !excludeIds.includes(object.id) && !object.hidden)
+        .map(getObjectBounds),
+      // Artboard edges, center, margin, safe area and bleed
+      getArtboardGuides(activeArtboard)
+    );
+    snapIndexCacheRef.current = { objects: canvasObjects, artboard: activeArtboard, key, index };
+    return index;
+  };
 
-  // Snapping utility functions
-  const snapToGrid = (value: number) => {
-    return Math.round(value / GRID_SIZE) * GRID_SIZE;
+  const snapOptions = { tolerance: snapTolerance, gridSize: GRID_SIZE };
+
+  const clearSnapGuides = () => {
+    setActiveSnapGuides({ x: [], y: [] });
+    setSpacingHints([]);
   };
 
-  const snapToValue = (value: number, snapPoints: number[], tolerance = SNAP_TOLERANCE) => {
-    for (const point of snapPoints) {
-      if (Math.abs(value - point) <= tolerance) {
-        return point;
-      }
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same file again
+    event.target.value = '';
+    const projectFile = files.find(isProjectFile);
+    if (projectFile) {
+      await openProject(projectFile);
+      return;
+    }
+    const pdfFiles = files.filter(file => file.type === 'application/pdf');
+    for (const file of pdfFiles) {
+      setPdfFile(file);
+      await addPdfToLibrary(file);
     }
-    return value;
+    if (pdfFiles.length > 0) setPageSelectionModalOpen(true);
   };
 
-  const getSnapPoints = (excludeId?: string) => {
-    const snapPoints = {
-      vertical: [0, canvasSize.width, canvasSize.width / 2], // Canvas edges and center
-      horizontal: [0, canvasSize.height, canvasSize.height / 2]
-    };
-
-    // Add snap points from other images
-    canvasImages
-      .filter(img => img.id !== excludeId)
-      .forEach(img => {
-        // Vertical snap points (left, center, right edges of images)
-        snapPoints.vertical.push(img.x);
-        snapPoints.vertical.push(img.x + img.width / 2);
-        snapPoints.vertical.push(img.x + img.width);
-        
-        // Horizontal snap points (top, center, bottom edges of images)
-        snapPoints.horizontal.push(img.y);
-        snapPoints.horizontal.push(img.y + img.height / 2);
-        snapPoints.horizontal.push(img.y + img.height);
-      });
-
-    return snapPoints;
+  // Registers an uploaded PDF as a source document. Its pages start out as
+  // placeholders; previews are rendered in the background.
+  const addSourceDocument = async (file: File) => {
+    const arrayBuffer = await file.arrayBuffer();
+    const documentId = `doc-${Date.now()}-${Math.random()}`;
+    // Keep the original bytes for vector export; pdf.js transfers the buffer it's given
+    const source = { id: documentId, name: file.name, bytes: arrayBuffer.slice(0) };
+    const documentPages = await openDocumentPages(documentId, arrayBuffer);
+    setSourceDocuments(prev => ({ ...prev, [documentId]: source }));
+    return documentPages;
   };
 
-  const applySnapping = (imageId: string, newX: number, newY: number, width: number, height: number) => {
-    // Always return valid coordinates, even if snapping is disabled
-    if (!snapEnabled || !canvasSize.width || !canvasSize.height) {
-      return { x: newX, y: newY };
-    }
+  // Pages of a new PDF join those already in the library
+  const addPdfToLibrary = async (file: File) => {
+    const documentPages = await addSourceDocument(file);
+    setPages(prev => [...prev, ...documentPages]);
+    queueThumbnails(documentPages);
+    return documentPages;
+  };
 
+  // Reads a PDF merged in the page organizer, with previews; it stays out of the library
+  const loadMergedDocument = async (file: File): Promise<MergedDocument> => {
+    const arrayBuffer = await file.arrayBuffer();
+    const documentId = `doc-${Date.now()}-${Math.random()}`;
+    const source = { id: documentId, name: file.name, bytes: arrayBuffer.slice(0) };
+    const pdf = await loadPdfDocument(arrayBuffer);
     try {
-      const snapPoints = getSnapPoints(imageId);
-      
-      // Ensure we have valid snap points
-      if (!snapPoints || !snapPoints.vertical || !snapPoints.horizontal) {
-        return { x: newX, y: newY };
+      const documentPages: PageInfo[] = [];
+      const documentThumbnails: Record<string, string> = {};
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const pageInfo = { documentId, pageNumber, selected: false };
+        documentPages.push(pageInfo);
+        documentThumbnails[pageKey(pageInfo)] = await renderThumbnail(pdf, pageNumber);
       }
-      
-      // Calculate key points of the image
-      const left = newX;
-      const right = newX + width;
-      const centerX = newX + width / 2;
-      const top = newY;
-      const bottom = newY + height;
-      const centerY = newY + height / 2;
-      
-      // Test different snap scenarios with priority to closer snaps
-      const snapScenarios = [
-        // Left edge snapping
-        { 
-          x: snapToValue(left, snapPoints.vertical), 
-          y: snapToValue(top, snapPoints.horizontal),
-          priority: 1
-        },
-        // Right edge snapping  
-        { 
-          x: snapToValue(right, snapPoints.vertical) - width, 
-          y: snapToValue(top, snapPoints.horizontal),
-          priority: 1
-        },
-        // Center X snapping
-        { 
-          x: snapToValue(centerX, snapPoints.vertical) - width / 2, 
-          y: snapToValue(centerY, snapPoints.horizontal) - height / 2,
-          priority: 2
-        },
-        // Bottom edge snapping
-        { 
-          x: snapToValue(left, snapPoints.vertical), 
-          y: snapToValue(bottom, snapPoints.horizontal) - height,
-          priority: 1
-        }
-      ];
-
-      // Find the best snap with minimum movement, considering priority
-      let bestSnap = { x: newX, y: newY };
-      let minDistance = Infinity;
-
-      snapScenarios.forEach(scenario => {
-        const distanceX = Math.abs(scenario.x - newX);
-        const distanceY = Math.abs(scenario.y - newY);
-        const totalDistance = distanceX + distanceY;
-        
-        // Only consider snaps within tolerance
-        if (distanceX <= SNAP_TOLERANCE || distanceY <= SNAP_TOLERANCE) {
-          // Prioritize edge snaps over center snaps
-          const adjustedDistance = totalDistance + (scenario.priority - 1) * 5;
-          
-          if (adjustedDistance < minDistance && adjustedDistance < 50) {
-            minDistance = adjustedDistance;
-            bestSnap = { x: scenario.x, y: scenario.y };
-          }
-        }
-      });
-
-      return bestSnap;
-    } catch (error) {
-      console.error('Snapping error:', error);
-      return { x: newX, y: newY };
+      return { source, pages: documentPages, thumbnails: documentThumbnails };
+    } finally {
+      pdf.destroy();
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
-      setPdfFile(file);
-      await extractPages(file);
+  // Placed pages keep their source reference; export falls back to their preview raster
+  const removeSourceDocument = (documentId: string) => {
+    const source = sourceDocuments[documentId];
+    if (!source) return;
+    const placed = artboards
+      .flatMap(artboard => flattenObjects(artboard.objects))
+      .filter(object => object.type === 'image' && object.source?.documentId === documentId).length;
+    const message = placed > 0
+      ? `Remove ${source.name}? ${placed} placed pages will be exported as images instead of vectors.`
+      : `Remove ${source.name} from the library?`;
+    if (!confirm(message)) return;
+    const fromDocument = (item: { documentId: string }) => item.documentId === documentId;
+    pdfDocumentsRef.current.get(documentId)?.destroy();
+    pdfDocumentsRef.current.delete(documentId);
+    for (const cache of [pageRenderCacheRef.current, pageRasterCacheRef.current]) {
+      cache.keys().filter(key => key.startsWith(`${documentId}:`)).forEach(key => cache.delete(key));
     }
+    setThumbnails(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith(`${documentId}:`))));
+    setSourceDocuments(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== documentId)));
+    setPages(prev => prev.filter(page => !fromDocument(page)));
+    setExtractedImages(prev => prev.filter(image => !fromDocument(image)));
+    setSelectedPages(prev => prev.filter(page => !fromDocument(page)));
+    setSelectedBottomBarImages(prev => prev.filter(page => !fromDocument(page)));
+    // Boundaries are indexes into `pages`, which just shifted
+    setSplitBoundaries([]);
   };
 
-  const extractPages = async (file: File) => {
+  const showDocumentPages = (documentId: string) => {
+    setPageSelectionModalOpen(true);
+    requestAnimationFrame(() => document.getElementById(`source-pages-${documentId}`)?.scrollIntoView());
+  };
+
+  // `data` is transferred to pdf.js
+  const loadPdfDocument = async (data: ArrayBuffer) => {
     // Dynamically import PDF.js on client-side only
     const pdfjsLib = await import('pdfjs-dist');
     
     // Set worker source to local file
     pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.js';
     
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-    const extractedPages: PageInfo[] = [];
-    const allExtractedImages: ExtractedImage[] = [];
-
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum);
-      const viewport = page.getViewport({ scale: 1.5 });
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-
-      if (context) {
-        await page.render({
-          canvas: canvas,
-          viewport: viewport
-        }).promise;
-
-        // Extract individual images from the page
-        const pageImages = await extractImagesFromCanvas(canvas, pageNum);
-        allExtractedImages.push(...pageImages);
-
-        extractedPages.push({
-          pageNumber: pageNum,
-          canvas: canvas,
-          selected: false,
-          extractedImages: pageImages
-        });
+    return pdfjsLib.getDocument({ data }).promise;
+  };
+
+  // Lists the pages of a PDF without rendering them; `data` is transferred to pdf.js
+  const openDocumentPages = async (documentId: string, data: ArrayBuffer): Promise<PageInfo[]> => {
+    const pdf = await loadPdfDocument(data);
+    pdfDocumentsRef.current.set(documentId, pdf);
+    return Array.from({ length: pdf.numPages }, (_, index) => ({ documentId, pageNumber: index + 1, selected: false }));
+  };
+
+  // Background rendering goes through one queue, a page at a time, so the pickers
+  // stay responsive. Cancelling drops everything still queued.
+  const queuePageJobs = (label: string, jobs: (() => Promise<void>)[]) => {
+    if (jobs.length === 0) return;
+    const generation = renderGenerationRef.current;
+    setRenderProgress(prev => prev
+      ? { label: prev.label === label ? label : 'Rendering pages', done: prev.done, total: prev.total + jobs.length }
+      : { label, done: 0, total: jobs.length });
+    renderQueueRef.current = renderQueueRef.current.then(async () => {
+      for (const job of jobs) {
+        if (generation !== renderGenerationRef.current) return;
+        try {
+          await job();
+        } catch (error) {
+          console.error('Error rendering page:', error);
+        }
+        if (generation === renderGenerationRef.current) {
+          setRenderProgress(prev => !prev || prev.done + 1 >= prev.total ? null : { ...prev, done: prev.done + 1 });
+        }
       }
+    });
+  };
+
+  const cancelPageJobs = () => {
+    renderGenerationRef.current += 1;
+    setRenderProgress(null);
+  };
+
+  const queueThumbnails = (pagesToRender: PageInfo[]) => {
+    queuePageJobs('Rendering previews', pagesToRender.map(pageInfo => async () => {
+      const pdf = pdfDocumentsRef.current.get(pageInfo.documentId);
+      if (!pdf) return;
+      const thumbnail = await renderThumbnail(pdf, pageInfo.pageNumber);
+      setThumbnails(prev => ({ ...prev, [pageKey(pageInfo)]: thumbnail }));
+    }));
+  };
+
+  // Full resolution raster of a page being placed on the canvas. Only placed
+  // pages are rendered this way, and the most recently used ones are cached.
+  const renderPlacedPage = async (pageInfo: PageInfo): Promise<RenderedPage> => {
+    const key = pageKey(pageInfo);
+    const cached = pageRenderCacheRef.current.get(key);
+    if (cached) return cached;
+    const pdf = pdfDocumentsRef.current.get(pageInfo.documentId);
+    if (!pdf) {
+      throw new Error(`Source document ${pageInfo.documentId} is not loaded`);
     }
+    const page = await pdf.getPage(pageInfo.pageNumber);
+    const canvas = await renderPageToCanvas(page, page.getViewport({ scale: PAGE_RENDER_SCALE }));
+    page.cleanup();
+    const rendered = { src: canvas.toDataURL(), width: canvas.width, height: canvas.height };
+    pageRenderCacheRef.current.set(key, rendered);
+    return rendered;
+  };
 
-    setPages(extractedPages);
-    setExtractedImages(allExtractedImages);
-    setPageSelectionModalOpen(true);
+  // Renders a placed page's source at `scale`
+  const renderPageRaster = async (source: PdfPageRef, scale: number) => {
+    const key = `${pageKey(source)}@${scale}`;
+    const cached = pageRasterCacheRef.current.get(key);
+    if (cached) return cached;
+    const pdf = pdfDocumentsRef.current.get(source.documentId);
+    if (!pdf) return null;
+    const page = await pdf.getPage(source.pageNumber);
+    const canvas = await renderPageToCanvas(page, page.getViewport({ scale }));
+    page.cleanup();
+    pageRasterCacheRef.current.set(key, canvas);
+    return canvas;
   };
 
-  const extractImagesFromCanvas = async (canvas: HTMLCanvasElement, pageNumber: number): Promise<ExtractedImage[]> => {
-    const images: ExtractedImage[] = [];
-    
+  // Re-renders the placed pages that show more detail than their preview raster
+  // holds, for `pixelRatio` output pixels per stage pixel. Sizes are read from the
+  // Konva nodes so transforms in progress count. Pages off screen are skipped
+  // unless `offscreen` is set. With a `generation`, the pass stops and returns
+  // null once a newer sharpen pass has started.
+  const getSharpRasters = async (pixelRatio: number, offscreen = false, generation?: number) => {
+    const stage = stageRef.current;
+    const rasters: Record<string, PageRaster> = {};
+    if (!stage) return rasters;
+    const screen = { x: 0, y: 0, width: stage.width(), height: stage.height() };
+    const isStale = () => generation !== undefined && generation !== sharpenGenerationRef.current;
+
+    const targets: { id: string; source: PdfPageRef; scale: number }[] = [];
+    for (const object of flattenObjects(canvasObjects)) {
+      if (object.type !== 'image' || !object.source || object.hidden) continue;
+      const node = stage.findOne(`#${object.id}`);
+      const pdf = pdfDocumentsRef.current.get(object.source.documentId);
+      if (!node || !pdf) continue;
+      if (!offscreen && !boundsIntersect(node.getClientRect(), screen)) continue;
+
+      const page = await pdf.getPage(object.source.pageNumber);
+      if (isStale()) return null;
+      const { width: pageWidth, height: pageHeight } = page.getViewport({ scale: 1 });
+      const baseScale = object.source.renderScale;
+      const absoluteScale = node.getAbsoluteScale();
+      const scale = sharpRenderScale(
+        node.width() * Math.abs(absoluteScale.x) * pixelRatio,
+        node.height() * Math.abs(absoluteScale.y) * pixelRatio,
+        object.cropWidth ? object.cropWidth / baseScale : pageWidth,
+        object.cropHeight ? object.cropHeight / baseScale : pageHeight,
+        pageWidth,
+        pageHeight
+      );
+      if (scale > baseScale) targets.push({ id: object.id, source: object.source, scale });
+    }
+
+    const rasterKeys = new Set(targets.map(({ source, scale }) => `${pageKey(source)}@${scale}`));
+    pageRasterCacheRef.current.setCapacity(Math.max(PAGE_RASTER_CACHE_SIZE, rasterKeys.size));
+    for (const { id, source, scale } of targets) {
+      if (isStale()) return null;
+      const canvas = await renderPageRaster(source, scale);
+      if (canvas) rasters[id] = { canvas, scale };
+    }
+    return isStale() ? null : rasters;
+  };
+
+  const sharpenPages = async () => {
+    const generation = ++sharpenGenerationRef.current;
     try {
-      // Get image data from canvas
-      const imageData = canvas.getContext('2d')?.getImageData(0, 0, canvas.width, canvas.height);
-      if (!imageData) return images;
+      const rasters = await getSharpRasters(window.devicePixelRatio || 1, false, generation);
+      // Null when a newer pass took over
+      if (rasters) setPageRasters(rasters);
+    } catch (error) {
+      console.error('Error re-rendering placed pages:', error);
+    }
+  };
+  // Timers read the latest objects and view through a ref
+  const sharpenPagesRef = useRef(sharpenPages);
+  sharpenPagesRef.current = sharpenPages;
+
+  // Finds the images embedded in pages that haven't been scanned yet
+  const scanPageImages = (pagesToScan: PageInfo[]) => {
+    queuePageJobs('Scanning for images', pagesToScan.filter(pageInfo => !pageInfo.extractedImages).map(pageInfo => async () => {
+      const pdf = pdfDocumentsRef.current.get(pageInfo.documentId);
+      if (!pdf) return;
+      const page = await pdf.getPage(pageInfo.pageNumber);
+      const viewport = page.getViewport({ scale: PAGE_RENDER_SCALE });
+      // Rendering resolves the image objects the extraction reads
+      await renderPageToCanvas(page, viewport);
+      const pageImages = await extractPageImages(page, viewport, pageInfo.documentId, pageInfo.pageNumber);
+      page.cleanup();
+      setPages(prev => prev.map(other => isSamePage(other, pageInfo) ? { ...other, extractedImages: pageImages } : other));
+      // A page queued twice is only added once
+      setExtractedImages(prev => prev.some(image => isSamePage(image, pageInfo)) ? prev : [...prev, ...pageImages]);
+    }));
+  };
 
-      // Simple image detection algorithm
-      // This is a basic implementation - you might want to use more sophisticated image detection
-      const detectedRegions = detectImageRegions(imageData, canvas.width, canvas.height);
-      
-      detectedRegions.forEach((region, index) => {
-        // Create a new canvas for each detected image region
-        const imageCanvas = document.createElement('canvas');
-        const imageContext = imageCanvas.getContext('2d');
-        
-        if (imageContext) {
-          imageCanvas.width = region.width;
-          imageCanvas.height = region.height;
-          
-          // Draw the region to the new canvas
-          imageContext.drawImage(
-            canvas,
-            region.x, region.y, region.width, region.height,
-            0, 0, region.width, region.height
-          );
-          
-          const extractedImage: ExtractedImage = {
-            id: `extracted-${pageNumber}-${index}-${Date.now()}`,
-            src: imageCanvas.toDataURL(),
-            x: region.x,
-            y: region.y,
-            width: region.width,
-            height: region.height,
-            pageNumber: pageNumber,
-            selected: false
-          };
-          
-          images.push(extractedImage);
-        }
+  const saveProject = () => {
+    try {
+      const blob = serializeProject({
+        artboards,
+        activeArtboardId,
+        sources: Object.values(sourceDocuments),
+        selectedPages: selectedPages.map(({ documentId, pageNumber }) => ({ documentId, pageNumber })),
       });
+      saveAs(blob, `canvas-project${PROJECT_EXTENSION}`);
     } catch (error) {
-      console.error('Error extracting images from canvas:', error);
+      console.error('Error saving project:', error);
+      alert('Could not save the project');
     }
-    
-    return images;
   };
 
-  const detectImageRegions = (imageData: ImageData, width: number, height: number) => {
-    const regions: {x: number, y: number, width: number, height: number}[] = [];
-    
-    // Simple algorithm to detect potential image regions
-    // This is a basic implementation - you might want to use more sophisticated detection
-    
-    // For now, let's create some sample regions based on the canvas size
-    // In a real implementation, you'd analyze the image data to find actual images
-    
-    const blockSize = Math.min(width, height) / 4;
-    const cols = Math.floor(width / blockSize);
-    const rows = Math.floor(height / blockSize);
-    
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const x = col * blockSize;
-        const y = row * blockSize;
-        const regionWidth = Math.min(blockSize, width - x);
-        const regionHeight = Math.min(blockSize, height - y);
-        
-        // Only add regions that are reasonably sized
-        if (regionWidth > 50 && regionHeight > 50) {
-          regions.push({
-            x: x,
-            y: y,
-            width: regionWidth,
-            height: regionHeight
-          });
-        }
+  // Replaces the current document with a saved project; its PDFs are reopened
+  // and their previews re-rendered so the page picker and bottom bar work as before.
+  // Images extracted in an autosaved session come back without rescanning their pages.
+  const loadProject = async (project: Project, restoredImages: ExtractedImage[] = []) => {
+    cancelPageJobs();
+    pdfDocumentsRef.current.forEach(pdf => pdf.destroy());
+    pdfDocumentsRef.current.clear();
+    pageRenderCacheRef.current.clear();
+    pageRasterCacheRef.current.clear();
+    const opened = await Promise.all(
+      project.sources.map(source => openDocumentPages(source.id, source.bytes.slice(0)))
+    );
+    const openedPages = opened.flat().map(page => {
+      const pageImages = restoredImages.filter(image => isSamePage(image, page));
+      return pageImages.length > 0 ? { ...page, extractedImages: pageImages } : page;
+    });
+
+    setSourceDocuments(Object.fromEntries(project.sources.map(source => [source.id, source])));
+    setPages(openedPages);
+    setThumbnails({});
+    queueThumbnails(openedPages);
+    setSplitBoundaries([]);
+    setExtractedImages(restoredImages);
+    setSelectedPages(project.selectedPages
+      .map(ref => openedPages.find(page => isSamePage(page, ref)))
+      .filter((page): page is PageInfo => !!page));
+    setSelectedBottomBarImages([]);
+    setArtboards(project.artboards);
+    setActiveArtboardId(project.activeArtboardId);
+    setHistory(EMPTY_HISTORY);
+    setSelectedIds([]);
+    cancelCrop();
+  };
+
+  const openProject = async (file: File) => {
+    try {
+      await loadProject(parseProject(await file.text()));
+      // Edits to an opened file are autosaved as a new session
+      setSessionId(createSessionId());
+      setSessionName(file.name.replace(/\.[^.]+$/, ''));
+      setPdfFile(file);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(error instanceof Error ? error.message : 'Could not open the project');
+    }
+  };
+
+  const refreshSessions = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => console.error('Error listing sessions:', error));
+  };
+
+  const restoreSession = async (id: string) => {
+    try {
+      const record = await loadSession(id);
+      if (!record) {
+        alert('The session no longer exists');
+        refreshSessions();
+        return;
       }
+      await loadProject(record.project, record.extractedImages);
+      setSessionId(record.id);
+      setSessionName(record.name);
+      setPdfFile(null);
+      setRestorableSession(null);
+      setSessionManagerOpen(false);
+    } catch (error) {
+      console.error('Error restoring session:', error);
+      alert('Could not restore the session');
+    }
+  };
+
+  const renameStoredSession = async (id: string, name: string) => {
+    try {
+      await renameSession(id, name);
+      if (id === sessionId) setSessionName(name);
+      refreshSessions();
+    } catch (error) {
+      console.error('Error renaming session:', error);
+    }
+  };
+
+  const deleteStoredSession = async (id: string) => {
+    if (!confirm('Delete this session? This cannot be undone.')) return;
+    try {
+      await deleteSession(id);
+      if (restorableSession?.id === id) setRestorableSession(null);
+      refreshSessions();
+    } catch (error) {
+      console.error('Error deleting session:', error);
+    }
+  };
+
+  // PDFs merged in the organizer join the library's sources for this download only
+  const downloadOrganizedPdf = async (organizedPages: OrganizerPage[], mergedSources: Record<string, SourceDocument>) => {
+    try {
+      const pdfBytes = await buildOrganizedPdf(organizedPages, { ...sourceDocuments, ...mergedSources });
+      saveAs(new Blob([pdfBytes as BlobPart], { type: 'application/pdf' }), 'organized.pdf');
+    } catch (error) {
+      console.error('Error writing organized PDF:', error);
+      alert('Could not write the PDF');
+    }
+  };
+
+  // Copies each part's pages from their source PDFs; several parts are zipped together
+  const downloadSplitParts = async (parts: { label: string; pages: PageInfo[] }[]) => {
+    const nonEmpty = parts.filter(part => part.pages.length > 0);
+    if (nonEmpty.length === 0) return;
+    const base = (sourceDocuments[nonEmpty[0].pages[0].documentId]?.name ?? 'document').replace(/\.pdf$/i, '');
+    setIsSplitting(true);
+    try {
+      const files = [];
+      for (const part of nonEmpty) {
+        const data = await buildOrganizedPdf(part.pages.map(page => createOrganizerPage(page)), sourceDocuments);
+        files.push({ name: partFileName(base, part.label), data });
+      }
+      if (files.length === 1) {
+        saveAs(new Blob([files[0].data as BlobPart], { type: 'application/pdf' }), files[0].name);
+      } else {
+        saveAs(createZip(files), `${base}-split.zip`);
+      }
+    } catch (error) {
+      console.error('Error splitting PDF:', error);
+      alert('Could not split the PDF');
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  const toggleSplitBoundary = (startIndex: number) => {
+    setSplitBoundaries(prev => prev.includes(startIndex)
+      ? prev.filter(index => index !== startIndex)
+      : [...prev, startIndex]);
+  };
+
+  // Each top-level bookmark starts a part; parts never span two source PDFs
+  const splitByBookmarks = async () => {
+    try {
+      const starts: number[] = [];
+      const titles = new Map<number, string>();
+      const documentIds = [...new Set(pages.map(page => page.documentId))];
+      for (const documentId of documentIds) {
+        const pdf = pdfDocumentsRef.current.get(documentId);
+        if (!pdf) continue;
+        starts.push(pages.findIndex(page => page.documentId === documentId));
+        const bookmarks = await getTopLevelBookmarks(pdf);
+        bookmarks.forEach(bookmark => {
+          const index = pages.findIndex(page => page.documentId === documentId && page.pageNumber === bookmark.pageNumber);
+          if (index < 0) return;
+          starts.push(index);
+          if (!titles.has(index)) titles.set(index, bookmark.title);
+        });
+      }
+      if (titles.size === 0) {
+        alert('This PDF has no bookmarks to split by');
+        return;
+      }
+      const chunks = splitBefore(pages, starts);
+      await downloadSplitParts(chunks.map((chunk, index) => {
+        const title = titles.get(pages.indexOf(chunk[0]));
+        return { label: title ? `${index + 1}-${title}` : `part-${index + 1}`, pages: chunk };
+      }));
+    } catch (error) {
+      console.error('Error reading bookmarks:', error);
+      alert('Could not read the bookmarks');
     }
-    
-    return regions;
   };
 
   const togglePageSelection = (pageIndex: number) => {
@@ -547,20 +1011,29 @@ export default function PDFCanvasEditor() {
     setSelectedPages([]);
   };
 
-  const addImageToCanvas = (pageInfo: PageInfo) => {
+  const getPageSource = (pageInfo: PageInfo) => ({
+    documentId: pageInfo.documentId,
+    pageNumber: pageInfo.pageNumber,
+    renderScale: PAGE_RENDER_SCALE,
+  });
+
+  const addImageToCanvas = async (pageInfo: PageInfo) => {
     try {
+      const rendered = await renderPlacedPage(pageInfo);
       const newImage: CanvasImage = {
         id: `img-${Date.now()}-${Math.random()}`,
-        src: pageInfo.canvas.toDataURL(),
+        type: 'image',
+        src: rendered.src,
+        source: getPageSource(pageInfo),
         x: Math.random() * 200,
         y: Math.random() * 200,
-        width: pageInfo.canvas.width * 0.3,
-        height: pageInfo.canvas.height * 0.3,
+        width: rendered.width * 0.3,
+        height: rendered.height * 0.3,
         scaleX: 1,
         scaleY: 1,
         rotation: 0,
       };
-      setCanvasImages(prev => [...prev, newImage]);
+      executeCommand(addObjectsCommand(activeArtboard.id, [newImage], `Add page ${pageInfo.pageNumber}`));
     } catch (error) {
       console.error('Error adding image to canvas:', error);
     }
@@ -568,9 +1041,9 @@ export default function PDFCanvasEditor() {
 
   const toggleBottomBarImageSelection = (pageInfo: PageInfo) => {
     if (bottomBarMultiSelect) {
-      const isSelected = selectedBottomBarImages.some(img => img.pageNumber === pageInfo.pageNumber);
+      const isSelected = selectedBottomBarImages.some(img => isSamePage(img, pageInfo));
       if (isSelected) {
-        setSelectedBottomBarImages(prev => prev.filter(img => img.pageNumber !== pageInfo.pageNumber));
+        setSelectedBottomBarImages(prev => prev.filter(img => !isSamePage(img, pageInfo)));
       } else {
         setSelectedBottomBarImages(prev => [...prev, pageInfo]);
       }
@@ -588,7 +1061,7 @@ export default function PDFCanvasEditor() {
     setSelectedBottomBarImages([]);
   };
 
-  const addSelectedBottomBarImagesToCanvas = () => {
+  const addSelectedBottomBarImagesToCanvas = async () => {
     if (selectedBottomBarImages.length === 0) {
       alert('Please select at least one image to add to canvas');
       return;
@@ -596,39 +1069,48 @@ export default function PDFCanvasEditor() {
 
     // Calculate grid layout for multiple images
     const cols = Math.ceil(Math.sqrt(selectedBottomBarImages.length));
-    const rows = Math.ceil(selectedBottomBarImages.length / cols);
     const spacing = 50;
     const baseWidth = 300;
     const baseHeight = 400;
 
-    selectedBottomBarImages.forEach((pageInfo, index) => {
+    const newImages: CanvasImage[] = [];
+    for (const [index, pageInfo] of selectedBottomBarImages.entries()) {
       try {
+        const rendered = await renderPlacedPage(pageInfo);
         const col = index % cols;
         const row = Math.floor(index / cols);
         
         const newImage: CanvasImage = {
           id: `img-${Date.now()}-${Math.random()}-${index}`,
-          src: pageInfo.canvas.toDataURL(),
+          type: 'image',
+          src: rendered.src,
+          source: getPageSource(pageInfo),
           x: col * (baseWidth + spacing) + 50,
           y: row * (baseHeight + spacing) + 50,
-          width: pageInfo.canvas.width * 0.3,
-          height: pageInfo.canvas.height * 0.3,
+          width: rendered.width * 0.3,
+          height: rendered.height * 0.3,
           scaleX: 1,
           scaleY: 1,
           rotation: 0,
         };
-        setCanvasImages(prev => [...prev, newImage]);
+        newImages.push(newImage);
       } catch (error) {
         console.error('Error adding image to canvas:', error);
       }
-    });
+    }
+    // The whole import is one undo step; there is nothing to undo when every page failed
+    if (newImages.length > 0) {
+      executeCommand(addObjectsCommand(activeArtboard.id, newImages, `Add ${newImages.length} pages`));
+    } else {
+      alert('The pages could not be added to the canvas');
+    }
 
     // Reset selections
     setSelectedBottomBarImages([]);
     setBottomBarMultiSelect(false);
   };
 
-  const addMultipleImagesToCanvas = () => {
+  const addMultipleImagesToCanvas = async () => {
     const selectedPagesToAdd = pages.filter(page => page.selected);
     if (selectedPagesToAdd.length === 0) {
       alert('Please select at least one page to import');
@@ -637,32 +1119,41 @@ export default function PDFCanvasEditor() {
 
     // Calculate grid layout for multiple images
     const cols = Math.ceil(Math.sqrt(selectedPagesToAdd.length));
-    const rows = Math.ceil(selectedPagesToAdd.length / cols);
     const spacing = 50;
     const baseWidth = 300;
     const baseHeight = 400;
 
-    selectedPagesToAdd.forEach((pageInfo, index) => {
+    const newImages: CanvasImage[] = [];
+    for (const [index, pageInfo] of selectedPagesToAdd.entries()) {
       try {
+        const rendered = await renderPlacedPage(pageInfo);
         const col = index % cols;
         const row = Math.floor(index / cols);
         
         const newImage: CanvasImage = {
           id: `img-${Date.now()}-${Math.random()}-${index}`,
-          src: pageInfo.canvas.toDataURL(),
+          type: 'image',
+          src: rendered.src,
+          source: getPageSource(pageInfo),
           x: col * (baseWidth + spacing) + 50,
           y: row * (baseHeight + spacing) + 50,
-          width: pageInfo.canvas.width * 0.3,
-          height: pageInfo.canvas.height * 0.3,
+          width: rendered.width * 0.3,
+          height: rendered.height * 0.3,
           scaleX: 1,
           scaleY: 1,
           rotation: 0,
         };
-        setCanvasImages(prev => [...prev, newImage]);
+        newImages.push(newImage);
       } catch (error) {
         console.error('Error adding image to canvas:', error);
       }
-    });
+    }
+    // Nothing to undo when every item failed
+    if (newImages.length > 0) {
+      executeCommand(addObjectsCommand(activeArtboard.id, newImages, `Bulk import ${newImages.length} pages`));
+    } else {
+      alert('The pages could not be added to the canvas');
+    }
 
     // Close bulk import mode and reset selections
     setBulkImportMode(false);
@@ -676,44 +1167,40 @@ export default function PDFCanvasEditor() {
       img.id === imageId ? { ...img, selected: !img.selected } : img
     );
     setExtractedImages(updatedImages);
-    
-    const newSelectedImages = updatedImages.filter(img => img.selected);
-    setSelectedExtractedImages(newSelectedImages);
   };
 
   const selectAllExtractedImages = () => {
     const updatedImages = extractedImages.map(img => ({ ...img, selected: true }));
     setExtractedImages(updatedImages);
-    setSelectedExtractedImages(updatedImages);
   };
 
   const deselectAllExtractedImages = () => {
     const updatedImages = extractedImages.map(img => ({ ...img, selected: false }));
     setExtractedImages(updatedImages);
-    setSelectedExtractedImages([]);
   };
 
   const addSelectedExtractedImagesToCanvas = () => {
-    const selectedImages = extractedImages.filter(img => img.selected);
-    if (selectedImages.length === 0) {
+    const selectedObjects = extractedImages.filter(img => img.selected);
+    if (selectedObjects.length === 0) {
       alert('Please select at least one image to import');
       return;
     }
 
     // Calculate grid layout for multiple images
-    const cols = Math.ceil(Math.sqrt(selectedImages.length));
-    const rows = Math.ceil(selectedImages.length / cols);
+    const cols = Math.ceil(Math.sqrt(selectedObjects.length));
     const spacing = 50;
     const baseWidth = 200;
     const baseHeight = 200;
 
-    selectedImages.forEach((extractedImage, index) => {
+    const newImages: CanvasImage[] = [];
+    selectedObjects.forEach((extractedImage, index) => {
       try {
         const col = index % cols;
         const row = Math.floor(index / cols);
         
         const newImage: CanvasImage = {
           id: `extracted-img-${Date.now()}-${Math.random()}-${index}`,
+          type: 'image',
           src: extractedImage.src,
           x: col * (baseWidth + spacing) + 50,
           y: row * (baseHeight + spacing) + 50,
@@ -723,18 +1210,33 @@ export default function PDFCanvasEditor() {
           scaleY: 1,
           rotation: 0,
         };
-        setCanvasImages(prev => [...prev, newImage]);
+        newImages.push(newImage);
       } catch (error) {
         console.error('Error adding extracted image to canvas:', error);
       }
     });
+    // Nothing to undo when every item failed
+    if (newImages.length > 0) {
+      executeCommand(addObjectsCommand(activeArtboard.id, newImages, `Import ${newImages.length} images`));
+    } else {
+      alert('The images could not be added to the canvas');
+    }
 
     // Close image selection mode and reset selections
     setImageSelectionMode(false);
     deselectAllExtractedImages();
   };
 
-  const exportCanvas = () => {
+  // Exports the active page only, as shown on the stage
+  const exportCanvas = async () => {
+    // Placed pages are re-rendered for the export resolution while the stage still shows the current view
+    let rasters: Record<string, PageRaster> = {};
+    try {
+      rasters = await getSharpRasters(EXPORT_PIXEL_RATIO / view.scale, true) ?? {};
+    } catch (error) {
+      console.error('Error re-rendering placed pages for export:', error);
+    }
+
     if (stageRef.current) {
       // Hide grid and guide layers during export
       const gridLayer = stageRef.current.findOne('.grid-layer');
@@ -742,14 +1244,42 @@ export default function PDFCanvasEditor() {
       
       if (gridLayer) gridLayer.visible(false);
       if (guideLayer) guideLayer.visible(false);
+
+      // Export the artboard including its bleed, independent of the current pan and zoom
+      stageRef.current.position({ x: 0, y: 0 });
+      stageRef.current.scale({ x: 1, y: 1 });
+
+      // The sharper rasters are swapped in for the export only
+      const placedPages = flattenObjects(canvasObjects);
+      const swapped = Object.entries(rasters).flatMap(([id, raster]) => {
+        const node = stageRef.current?.findOne<Konva.Image>(`#${id}`);
+        const object = placedPages.find(candidate => candidate.id === id);
+        if (!node || object?.type !== 'image' || !object.source) return [];
+        const previous = {
+          image: node.image(),
+          cropX: node.cropX(),
+          cropY: node.cropY(),
+          cropWidth: node.cropWidth(),
+          cropHeight: node.cropHeight(),
+        };
+        node.setAttrs({ image: raster.canvas, ...scaledCrop(object, raster.scale / object.source.renderScale) });
+        return [() => node.setAttrs(previous)];
+      });
       
       const dataURL = stageRef.current.toDataURL({
+        x: -activeArtboard.bleed,
+        y: -activeArtboard.bleed,
+        width: activeArtboard.width + activeArtboard.bleed * 2,
+        height: activeArtboard.height + activeArtboard.bleed * 2,
         mimeType: 'image/png',
         quality: 1,
-        pixelRatio: 3 // High resolution
+        pixelRatio: EXPORT_PIXEL_RATIO
       });
       
-      // Restore visibility
+      // Restore rasters, visibility and view
+      swapped.forEach(restore => restore());
+      stageRef.current.position({ x: view.x, y: view.y });
+      stageRef.current.scale({ x: view.scale, y: view.scale });
       if (gridLayer) gridLayer.visible(true);
       if (guideLayer) guideLayer.visible(true);
       
@@ -760,124 +1290,952 @@ export default function PDFCanvasEditor() {
     }
   };
 
-  const cropImage = () => {
-    if (selectedImageId && !cropMode) {
-      setCropMode(true);
-      const selectedImage = canvasImages.find(img => img.id === selectedImageId);
-      if (selectedImage) {
-        setCropRect({
-          x: selectedImage.x + 20,
-          y: selectedImage.y + 20,
-          width: selectedImage.width - 40,
-          height: selectedImage.height - 40
-        });
+  const exportPdf = async () => {
+    if (artboards.every(artboard => artboard.objects.length === 0)) {
+      alert('Add at least one image to the canvas before exporting');
+      return;
+    }
+
+    setIsExportingPdf(true);
+    try {
+      const { bytes, failures } = await exportArtboardsToPdf(artboards, sourceDocuments, {
+        pageSize: exportPageSize,
+        orientation: exportOrientation,
+      });
+      saveAs(new Blob([bytes as BlobPart], { type: 'application/pdf' }), 'canvas-export.pdf');
+      if (failures.length > 0) {
+        alert(
+          'Some objects are missing from the PDF or only partly exported:\n'
+          + failures.map(failure => `• ${failure.artboardName}: ${failure.objectType} (${failure.message})`).join('\n')
+        );
       }
-    } else if (cropMode) {
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+      alert('Could not export the PDF');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const cropImage = async () => {
+    if (cropMode) {
       // Apply the crop
       applyCrop();
-    } else {
+      return;
+    }
+    const selectedImage = canvasObjects.find(object => object.id === selectedObjectId);
+    if (selectedImage?.type !== 'image') {
       alert('Please select an image first');
+      return;
+    }
+    // Crop values refer to the `src` bitmap, not a sharper raster the node may be showing
+    const bitmap = new window.Image();
+    bitmap.src = selectedImage.src;
+    try {
+      await bitmap.decode();
+    } catch (error) {
+      console.error('Error loading image for cropping:', error);
+      alert('The image could not be loaded');
+      return;
+    }
+    // Start from the current crop; the whole bitmap stays available to widen it again
+    setCropNaturalSize({ width: bitmap.naturalWidth, height: bitmap.naturalHeight });
+    setCropRect({ x: 0, y: 0, width: selectedImage.width, height: selectedImage.height });
+    setCropAspect('free');
+    setCropMode(true);
+  };
+
+  const croppingImage = cropMode
+    ? canvasObjects.find((object): object is CanvasImage => object.id === selectedObjectId && object.type === 'image')
+    : undefined;
+  const uncroppedBox = croppingImage && cropNaturalSize
+    ? getUncroppedBox(croppingImage, cropNaturalSize.width, cropNaturalSize.height)
+    : null;
+
+  const getCropAspectRatio = (aspect: CropAspect) => {
+    switch (aspect) {
+      case '1:1':
+        return 1;
+      case '4:3':
+        return 4 / 3;
+      case 'page':
+        return activeArtboard.width / activeArtboard.height;
+      case 'original':
+        return uncroppedBox ? uncroppedBox.width / uncroppedBox.height : null;
+      default:
+        return null;
+    }
+  };
+
+  const changeCropAspect = (aspect: CropAspect) => {
+    setCropAspect(aspect);
+    const ratio = getCropAspectRatio(aspect);
+    if (ratio && cropRect && uncroppedBox) {
+      setCropRect(clampCropFrame(fitCropAspect(cropRect, ratio), uncroppedBox));
+    }
+  };
+
+  // Widens the crop back to the whole image
+  const resetCrop = () => {
+    if (uncroppedBox) {
+      setCropRect(uncroppedBox);
+      setCropAspect('free');
+    }
+  };
+
+  const applyCrop = () => {
+    if (croppingImage && cropRect && cropNaturalSize) {
+      const unchanged = cropRect.x === 0 && cropRect.y === 0
+        && cropRect.width === croppingImage.width && cropRect.height === croppingImage.height;
+      if (!unchanged) {
+        updateObject(
+          croppingImage.id,
+          applyCropFrame(croppingImage, cropRect, cropNaturalSize.width, cropNaturalSize.height),
+          'Crop image'
+        );
+      }
+    }
+    cancelCrop();
+  };
+
+  const cancelCrop = () => {
+    setCropMode(false);
+    setCropRect(null);
+    setCropNaturalSize(null);
+  };
+
+  // New text goes in the middle of what's visible, inside the artboard
+  const addText = () => {
+    const x = Math.min(Math.max(visibleRect.x + visibleRect.width / 2 - 120, 0), Math.max(0, activeArtboard.width - 240));
+    const y = Math.min(Math.max(visibleRect.y + visibleRect.height / 2, 0), activeArtboard.height);
+    const text = createTextObject(x, y);
+    executeCommand(addObjectsCommand(activeArtboard.id, [text], 'Add text'));
+    setSelectedIds([text.id]);
+    setEditingTextId(text.id);
+  };
+
+  const commitTextEdit = (value: string) => {
+    if (editingText && value !== editingText.text) {
+      updateObject(editingText.id, withTextChanges(editingText, { text: value }), 'Edit text');
+    }
+    setEditingTextId(null);
+  };
+
+  const changeTextStyle = (style: Partial<CanvasText>) => {
+    if (selectedText) {
+      updateObject(selectedText.id, withTextChanges(selectedText, style), 'Change text style');
+    }
+  };
+
+  const reorderLayers = (order: string[], label: string) => {
+    const current = canvasObjects.map(object => object.id);
+    if (order.every((id, index) => id === current[index])) return;
+    executeCommand(reorderObjectsCommand(activeArtboard.id, current, order, label));
+  };
+
+  const selectLayer = (id: string, additive: boolean) => {
+    if (cropMode) return;
+    setSelectedIds(prev => additive
+      ? prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]
+      : [id]);
+  };
+
+  const toggleLayerLocked = (id: string) => {
+    const object = canvasObjects.find(candidate => candidate.id === id);
+    if (object) {
+      updateObject(id, { locked: !object.locked }, object.locked ? 'Unlock object' : 'Lock object');
+    }
+  };
+
+  // Hidden objects can't stay selected since they can't be seen or transformed
+  const toggleLayerHidden = (id: string) => {
+    const object = canvasObjects.find(candidate => candidate.id === id);
+    if (!object) return;
+    updateObject(id, { hidden: !object.hidden }, object.hidden ? 'Show object' : 'Hide object');
+    if (!object.hidden) setSelectedIds(prev => prev.filter(selected => selected !== id));
+  };
+
+  const updateGuides = (guides: Guide[], label: string) => {
+    executeCommand(updateGuidesCommand(activeArtboard.id, activeArtboard.guides, guides, label));
+  };
+
+  // Guides dropped back on their ruler are discarded
+  const dropRulerGuide = (axis: Guide['axis'], position: number | null) => {
+    setGuideDraft(null);
+    if (position !== null) {
+      updateGuides([...activeArtboard.guides, createGuide(axis, position)], 'Add guide');
+    }
+  };
+
+  // The line node is only moved along its axis; the drag offset is folded back
+  // into the guide position and the node reset, as its x/y props never change
+  const handleGuideDragEnd = (guide: Guide, e: Konva.KonvaEventObject<DragEvent>) => {
+    const node = e.target;
+    const offset = guide.axis === 'x' ? node.x() : node.y();
+    node.position({ x: 0, y: 0 });
+    const pointer = node.getStage()?.getPointerPosition();
+    if (pointer && (guide.axis === 'x' ? pointer.x : pointer.y) < RULER_SIZE) {
+      updateGuides(activeArtboard.guides.filter(other => other.id !== guide.id), 'Delete guide');
+    } else if (offset !== 0) {
+      updateGuides(
+        activeArtboard.guides.map(other => other.id === guide.id ? { ...other, position: guide.position + offset } : other),
+        'Move guide'
+      );
+    }
+  };
+
+  const movableSelection = () => selectedObjects.filter(object => !object.locked);
+
+  const applyPlacements = (placements: Placement[], label: string) => {
+    const changes = placements.flatMap(({ id, x, y }) => {
+      const object = canvasObjects.find(candidate => candidate.id === id);
+      if (!object || (Math.abs(object.x - x) < 0.01 && Math.abs(object.y - y) < 0.01)) return [];
+      return [{ id, before: { x: object.x, y: object.y }, after: { x, y } }];
+    });
+    if (changes.length > 0) {
+      executeCommand(updateObjectsCommand(activeArtboard.id, changes, label));
+    }
+  };
+
+  const alignSelected = (mode: AlignMode) => {
+    const objects = movableSelection();
+    const artboardBounds = { x: 0, y: 0, width: activeArtboard.width, height: activeArtboard.height };
+    const reference = getReferenceBounds(objects, alignReference, artboardBounds);
+    if (!reference) return;
+    applyPlacements(alignObjects(objects, mode, reference), ALIGN_MODES.find(item => item.value === mode)?.label ?? 'Align');
+  };
+
+  const distributeSelected = (axis: DistributeAxis) => {
+    const objects = movableSelection();
+    const artboardBounds = { x: 0, y: 0, width: activeArtboard.width, height: activeArtboard.height };
+    const reference = getReferenceBounds(objects, alignReference, artboardBounds);
+    if (!reference) return;
+    applyPlacements(distributeObjects(objects, axis, reference), `Distribute ${axis}ly`);
+  };
+
+  const transformSelected = (transform: (object: CanvasObject) => Partial<CanvasObject>, label: string) => {
+    const changes = movableSelection().map(object => {
+      const after = transform(object);
+      return { id: object.id, before: pickAttrs(object, after), after };
+    });
+    if (changes.length > 0) {
+      executeCommand(updateObjectsCommand(activeArtboard.id, changes, label));
+    }
+  };
+
+  // Moves the selection so its bounding box starts at x/y
+  const moveSelectionTo = (x: number, y: number) => {
+    const objects = movableSelection();
+    const bounds = unionBounds(objects.map(getObjectBounds));
+    if (!bounds) return;
+    applyPlacements(
+      objects.map(object => ({ id: object.id, x: object.x + x - bounds.x, y: object.y + y - bounds.y })),
+      objects.length === 1 ? 'Move object' : `Move ${objects.length} objects`
+    );
+  };
+
+  // Quick rotations and flips turn the whole selection around its centre
+  const selectionCentre = () => {
+    const bounds = unionBounds(movableSelection().map(getObjectBounds));
+    return bounds ? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 } : undefined;
+  };
+
+  const rotateSelectedBy = (degrees: number) => {
+    const pivot = selectionCentre();
+    transformSelected(object => rotateObject(object, degrees, pivot), degrees > 0 ? 'Rotate right' : 'Rotate left');
+  };
+
+  const flipSelected = (axis: FlipAxis) => {
+    const pivot = selectionCentre();
+    transformSelected(object => flipObject(object, axis, pivot), axis === 'horizontal' ? 'Flip horizontally' : 'Flip vertically');
+  };
+
+  // The group takes the stacking position of the topmost grouped object
+  const groupSelected = () => {
+    const members = canvasObjects.filter(object => selectedIds.includes(object.id) && !object.locked);
+    if (members.length < 2 || cropMode) return;
+    const group = createGroup(members);
+    if (!group) return;
+    const topIndex = canvasObjects.indexOf(members[members.length - 1]);
+    const remaining = canvasObjects.filter(object => !members.includes(object));
+    const insertAt = remaining.filter(object => canvasObjects.indexOf(object) < topIndex).length;
+    executeCommand(replaceObjectsCommand(
+      activeArtboard.id,
+      canvasObjects,
+      [...remaining.slice(0, insertAt), group, ...remaining.slice(insertAt)],
+      `Group ${members.length} objects`
+    ));
+    setSelectedIds([group.id]);
+  };
+
+  const ungroupSelected = () => {
+    const groups = selectedObjects.filter((object): object is CanvasGroup => object.type === 'group' && !object.locked);
+    if (groups.length === 0 || cropMode) return;
+    const objects = canvasObjects.flatMap(object =>
+      object.type === 'group' && groups.includes(object) ? ungroupChildren(object) : [object]
+    );
+    executeCommand(replaceObjectsCommand(
+      activeArtboard.id,
+      canvasObjects,
+      objects,
+      groups.length === 1 ? 'Ungroup' : `Ungroup ${groups.length} groups`
+    ));
+    setSelectedIds(groups.flatMap(group => group.children.map(child => child.id)));
+  };
+
+  const deleteSelected = () => {
+    const ids = selectedObjects.map(object => object.id);
+    if (ids.length > 0) {
+      executeCommand(removeObjectsCommand(
+        activeArtboard.id,
+        canvasObjects,
+        ids,
+        ids.length === 1 ? 'Delete object' : `Delete ${ids.length} objects`
+      ));
+      setSelectedIds([]);
+    }
+  };
+
+  const updateObject = (id: string, newAttrs: Partial<CanvasObject>, label?: string) => {
+    const object = canvasObjects.find(candidate => candidate.id === id);
+    if (!object) return;
+    const isMove = Object.keys(newAttrs).every(key => key === 'x' || key === 'y');
+    executeCommand(updateObjectCommand(
+      activeArtboard.id,
+      id,
+      pickAttrs(object, newAttrs),
+      newAttrs,
+      label ?? (isMove ? 'Move object' : 'Transform object')
+    ));
+  };
+
+  // Undoes `steps` commands, most recent first
+  const undo = (steps = 1) => {
+    const commands = history.past.slice(-steps).reverse();
+    if (commands.length === 0) return;
+    const next = commands.reduce((state, command) => command.revert(state), artboards);
+    setArtboards(next);
+    setHistory(prev => ({
+      past: prev.past.slice(0, prev.past.length - commands.length),
+      future: [...prev.future, ...commands],
+    }));
+    focusArtboard(next, commands[commands.length - 1].artboardId);
+  };
+
+  const redo = (steps = 1) => {
+    const commands = history.future.slice(-steps).reverse();
+    if (commands.length === 0) return;
+    const next = commands.reduce((state, command) => command.apply(state), artboards);
+    setArtboards(next);
+    setHistory(prev => ({
+      past: [...prev.past, ...commands],
+      future: prev.future.slice(0, prev.future.length - commands.length),
+    }));
+    focusArtboard(next, commands[commands.length - 1].artboardId);
+  };
+
+  // Shows the page an undone/redone change happened on, checked against the
+  // artboards after the change. When that removed the active page, the page
+  // before it takes over, as when deleting a page.
+  const focusArtboard = (next: Artboard[], id?: string) => {
+    if (id && id !== activeArtboardId && next.some(artboard => artboard.id === id)) {
+      switchArtboard(id);
+    } else if (!next.some(artboard => artboard.id === activeArtboardId) && next.length > 0) {
+      const index = artboards.findIndex(artboard => artboard.id === activeArtboardId);
+      switchArtboard(next[Math.min(Math.max(0, index - 1), next.length - 1)].id);
+    }
+  };
+
+  const switchArtboard = (id: string) => {
+    setActiveArtboardId(id);
+    setSelectedIds([]);
+    setEditingTextId(null);
+    cancelCrop();
+  };
+
+  const addArtboard = () => {
+    const { width, height, margin, bleed, safeArea } = activeArtboard;
+    const artboard = createArtboard(nextArtboardName(artboards), { width, height, margin, bleed, safeArea });
+    executeCommand(replaceArtboardsCommand(artboards, [...artboards, artboard], 'Add page', artboard.id));
+    switchArtboard(artboard.id);
+  };
+
+  const duplicateArtboardById = (id: string) => {
+    const index = artboards.findIndex(artboard => artboard.id === id);
+    if (index === -1) return;
+    const copy = duplicateArtboard(artboards[index], `${artboards[index].name} copy`);
+    executeCommand(replaceArtboardsCommand(
+      artboards,
+      [...artboards.slice(0, index + 1), copy, ...artboards.slice(index + 1)],
+      'Duplicate page',
+      copy.id
+    ));
+    switchArtboard(copy.id);
+  };
+
+  const deleteArtboard = (id: string) => {
+    if (artboards.length <= 1) return;
+    const index = artboards.findIndex(artboard => artboard.id === id);
+    const remaining = artboards.filter(artboard => artboard.id !== id);
+    executeCommand(replaceArtboardsCommand(artboards, remaining, 'Delete page', id));
+    if (id === activeArtboardId) {
+      switchArtboard(remaining[Math.max(0, index - 1)].id);
+    }
+  };
+
+  const updateArtboardSettings = (id: string, settings: Partial<Artboard>) => {
+    executeCommand(replaceArtboardsCommand(
+      artboards,
+      artboards.map(artboard => artboard.id === id ? { ...artboard, ...settings } : artboard),
+      'Change page setup',
+      id
+    ));
+  };
+
+  const reorderArtboards = (fromIndex: number, toIndex: number) => {
+    const reordered = moveArtboard(artboards, fromIndex, toIndex);
+    if (reordered !== artboards) {
+      executeCommand(replaceArtboardsCommand(artboards, reordered, 'Reorder pages'));
+    }
+  };
+
+  // Shift toggles an object in or out of the selection. Pressing on an object that is
+  // already selected keeps the selection so the whole group can be dragged.
+  const selectObject = (id: string, e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    if (cropMode) return;
+    if (e.evt.shiftKey) {
+      setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+    } else if (!selectedIds.includes(id)) {
+      setSelectedIds([id]);
+    }
+  };
+
+  // Pressing on empty stage space starts a rubber-band selection
+  const startMarquee = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const stage = e.target.getStage();
+    if (e.target !== stage || spacePressed || cropMode) return;
+    if ('touches' in e.evt && e.evt.touches.length > 1) return;
+    const point = stage.getRelativePointerPosition();
+    if (!point) return;
+    if (!e.evt.shiftKey) setSelectedIds([]);
+    marqueeOriginRef.current = point;
+    setMarquee({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const updateMarquee = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const origin = marqueeOriginRef.current;
+    const point = e.target.getStage()?.getRelativePointerPosition();
+    if (!origin || !point) return;
+    setMarquee({
+      x: Math.min(origin.x, point.x),
+      y: Math.min(origin.y, point.y),
+      width: Math.abs(point.x - origin.x),
+      height: Math.abs(point.y - origin.y),
+    });
+  };
+
+  const finishMarquee = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    if (!marqueeOriginRef.current) return;
+    marqueeOriginRef.current = null;
+    setMarquee(null);
+    // A plain click on empty space only clears the selection
+    if (!marquee || marquee.width * view.scale < 3 || marquee.height * view.scale < 3) return;
+    const hits = canvasObjects
+      .filter(object => !object.locked && !object.hidden)
+      .filter(object => Konva.Util.haveIntersection(marquee, getObjectBounds(object)))
+      .map(object => object.id);
+    setSelectedIds(prev => e.evt.shiftKey ? [...prev, ...hits.filter(id => !prev.includes(id))] : hits);
+  };
+
+  // Snaps a drawn or dragged point to guides, object edges and the grid
+  const snapPoint = (point: { x: number; y: number }, excludeIds: string[] = []) => {
+    if (!snapEnabled) return point;
+    const { x, y } = snapPointToTargets(getSnapIndex(excludeIds), point, snapOptions);
+    return { x, y };
+  };
+
+  const startDrawing = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const stage = e.target.getStage();
+    if (e.target !== stage || spacePressed || cropMode) return;
+    if ('touches' in e.evt && e.evt.touches.length > 1) return;
+    const point = stage.getRelativePointerPosition();
+    if (!point) return;
+    const start = snapPoint(point);
+    setSelectedIds([]);
+    setDrawing({ start, end: start });
+  };
+
+  const updateDrawing = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const point = e.target.getStage()?.getRelativePointerPosition();
+    if (!drawing || !point) return;
+    setDrawing({ ...drawing, end: snapPoint(point) });
+  };
+
+  // A click without dragging places a shape of the default size
+  const finishDrawing = () => {
+    if (!drawing || tool === 'select' || tool === 'pen' || tool === 'highlighter') return;
+    const { start, end } = drawing;
+    const dragged = Math.hypot(end.x - start.x, end.y - start.y) * view.scale >= 3;
+    let object: CanvasObject;
+    if (tool === 'line' || tool === 'arrow') {
+      object = createLine(start, dragged ? end : { x: start.x + DEFAULT_SHAPE_SIZE, y: start.y }, tool === 'arrow');
+    } else {
+      object = createShape(tool, dragged
+        ? { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width: Math.abs(end.x - start.x), height: Math.abs(end.y - start.y) }
+        : { x: start.x, y: start.y, width: DEFAULT_SHAPE_SIZE, height: DEFAULT_SHAPE_SIZE * 0.6 });
+    }
+    const label = SHAPE_TOOLS.find(item => item.value === tool)?.label.toLowerCase() ?? 'shape';
+    executeCommand(addObjectsCommand(activeArtboard.id, [object], `Add ${label}`));
+    setDrawing(null);
+    setSelectedIds([object.id]);
+    setTool('select');
+  };
+
+  const handleStagePointerDown = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    if (tool === 'select') startMarquee(e);
+    else if (!freehandTool) startDrawing(e);
+  };
+
+  const handleStagePointerMove = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    if (drawing) updateDrawing(e);
+    else updateMarquee(e);
+  };
+
+  const handleStagePointerUp = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    if (drawing) finishDrawing();
+    else finishMarquee(e);
+  };
+
+  // Freehand tools listen to pointer events, which carry stylus pressure
+  const strokeSample = (e: Konva.KonvaEventObject<PointerEvent>): StrokeSample | null => {
+    const point = e.target.getStage()?.getRelativePointerPosition();
+    if (!point) return null;
+    return e.evt.pointerType === 'pen' ? { ...point, pressure: e.evt.pressure } : point;
+  };
+
+  const startFreehand = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    if (!freehandTool || spacePressed || cropMode || !e.evt.isPrimary) return;
+    const sample = strokeSample(e);
+    if (!sample) return;
+    setSelectedIds([]);
+    setFreehandSamples([sample]);
+  };
+
+  const extendFreehand = (e: Konva.KonvaEventObject<PointerEvent>) => {
+    if (!freehandSamples || !e.evt.isPrimary) return;
+    const sample = strokeSample(e);
+    if (sample) setFreehandSamples(prev => prev && [...prev, sample]);
+  };
+
+  const finishFreehand = () => {
+    if (!freehandSamples || !freehandTool) return;
+    // Simplify to within about a screen pixel of what was drawn
+    const stroke = createFreehandStroke(freehandTool, freehandSamples, 1 / view.scale);
+    executeCommand(addObjectsCommand(
+      activeArtboard.id,
+      [stroke],
+      freehandTool === 'highlighter' ? 'Highlight' : 'Draw with pen'
+    ));
+    setFreehandSamples(null);
+  };
+
+  const changeShapeStyle = (style: Partial<CanvasShape> | Partial<CanvasLine> | Partial<CanvasFreehand>) => {
+    if (selectedVector) {
+      updateObject(selectedVector.id, style, 'Change shape style');
+    }
+  };
+
+  // Endpoint handles preview on the Konva node and commit on release
+  const moveLineEndpoint = (line: CanvasLine, index: 0 | 1, e: Konva.KonvaEventObject<DragEvent>, commit: boolean) => {
+    const point = snapPoint(e.target.position(), [line.id]);
+    e.target.position(point);
+    const endpoints = lineEndpoints(line);
+    endpoints[index] = point;
+    if (commit) {
+      updateObject(line.id, lineGeometry(endpoints[0], endpoints[1]), 'Edit line');
+    } else {
+      (getObjectNode(line.id) as Konva.Arrow | undefined)?.points(
+        endpoints.flatMap(endpoint => [endpoint.x - line.x, endpoint.y - line.y])
+      );
+    }
+  };
+
+  const moveCalloutTail = (shape: CanvasShape, e: Konva.KonvaEventObject<DragEvent>, commit: boolean) => {
+    const node = getObjectNode(shape.id) as Konva.Path | undefined;
+    if (!node) return;
+    const tail = node.getTransform().copy().invert().point(e.target.position());
+    if (commit) {
+      updateObject(shape.id, { tail }, 'Move callout pointer');
+    } else {
+      node.data(calloutPath(shape.width, shape.height, tail));
+    }
+  };
+
+  const getObjectNode = (id: string) =>
+    contentLayerRef.current?.findOne((node: Konva.Node) => node.id() === id);
+
+  // Dragging a selected object moves the whole selection. Konva's transformer also
+  // starts drags on the other selected nodes, so only the node the user grabbed
+  // (the leader) drives the move and the rest follow its snapped offset.
+  const handleObjectDragStart = (id: string) => {
+    try {
+      const current = groupDragRef.current;
+      if (current && !current.ended && current.ids.includes(id)) return;
+      const layer = contentLayerRef.current;
+      const ids = selectedIds.includes(id) && selectedIds.length > 1
+        ? selectedIds.filter(selected => !lockedIds.includes(selected))
+        : [id];
+      const nodes = ids.map(getObjectNode).filter((node): node is Konva.Node => !!node);
+      if (!layer || nodes.length === 0) return;
+
+      const start: Record<string, { x: number; y: number }> = {};
+      nodes.forEach(node => { start[node.id()] = node.position(); });
+      const bounds = unionBounds(nodes.map(node => node.getClientRect({ relativeTo: layer })));
+      if (!bounds) return;
+      groupDragRef.current = { leaderId: id, ids, start, bounds, delta: { x: 0, y: 0 }, ended: false };
+    } catch (error) {
+      console.error('Drag start error:', error);
+    }
+  };
+
+  const handleObjectDragMove = (id: string, e: Konva.KonvaEventObject<DragEvent>) => {
+    try {
+      const drag = groupDragRef.current;
+      if (!drag || drag.ended) return;
+      const node = e.target;
+
+      if (id === drag.leaderId) {
+        const raw = {
+          x: node.x() - drag.start[id].x,
+          y: node.y() - drag.start[id].y,
+        };
+        const box = { ...drag.bounds, x: drag.bounds.x + raw.x, y: drag.bounds.y + raw.y };
+        const snapped = snapEnabled ? snapBox(getSnapIndex(drag.ids), box, snapOptions) : null;
+        drag.delta = snapped ? { x: raw.x + snapped.x - box.x, y: raw.y + snapped.y - box.y } : raw;
+
+        drag.ids.forEach(selectedId => {
+          getObjectNode(selectedId)?.position({
+            x: drag.start[selectedId].x + drag.delta.x,
+            y: drag.start[selectedId].y + drag.delta.y,
+          });
+        });
+
+        if (snapped) {
+          setActiveSnapGuides(snapped.guides);
+          setSpacingHints(snapped.spacing);
+        }
+      } else if (drag.ids.includes(id)) {
+        // Followers are positioned from the pointer by Konva; pin them to the leader's offset
+        node.position({
+          x: drag.start[id].x + drag.delta.x,
+          y: drag.start[id].y + drag.delta.y,
+        });
+      }
+    } catch (error) {
+      console.error('Drag move error:', error);
+    }
+  };
+
+  const handleObjectDragEnd = (id: string) => {
+    const drag = groupDragRef.current;
+    if (!drag || drag.ended || id !== drag.leaderId) return;
+    drag.ended = true;
+    clearSnapGuides();
+    if (cropMode || (drag.delta.x === 0 && drag.delta.y === 0)) return;
+
+    const changes = drag.ids
+      .map(selectedId => canvasObjects.find(object => object.id === selectedId))
+      .filter((object): object is CanvasObject => !!object)
+      .map(object => {
+        const after = {
+          x: drag.start[object.id].x + drag.delta.x,
+          y: drag.start[object.id].y + drag.delta.y,
+        };
+        return { id: object.id, before: pickAttrs(object, after), after };
+      });
+    executeCommand(updateObjectsCommand(
+      activeArtboard.id,
+      changes,
+      changes.length === 1 ? 'Move object' : `Move ${changes.length} objects`
+    ));
+  };
+
+  // Live snapping while resizing a single object; group transforms aren't snapped
+  const handleObjectTransform = (id: string, e: Konva.KonvaEventObject<Event>) => {
+    // Placed pages are re-rendered for their new size once the transform pauses
+    window.clearTimeout(transformSharpenTimerRef.current);
+    transformSharpenTimerRef.current = window.setTimeout(() => sharpenPagesRef.current(), SHARPEN_DELAY);
+
+    const node = e.target;
+    const layer = node.getLayer();
+    if (selectedIds.length !== 1 || !layer || !snapEnabled) return;
+
+    // Get the bounding box after transform
+    const box = node.getClientRect({ relativeTo: layer });
+    const snapped = snapBox(getSnapIndex([id]), box, snapOptions);
+
+    // Adjust position based on snapping
+    if (Math.abs(box.x - snapped.x) > 1 || Math.abs(box.y - snapped.y) > 1) {
+      node.x(node.x() + (snapped.x - box.x));
+      node.y(node.y() + (snapped.y - box.y));
     }
+    setActiveSnapGuides(snapped.guides);
+    setSpacingHints(snapped.spacing);
   };
 
-  const applyCrop = () => {
-    if (selectedImageId && cropRect) {
-      const selectedImage = canvasImages.find(img => img.id === selectedImageId);
-      if (selectedImage) {
-        // Create a canvas to crop the image
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const img = new Image();
-        
-        img.onload = () => {
-          // Calculate crop dimensions relative to original image
-          const scaleX = img.width / selectedImage.width;
-          const scaleY = img.height / selectedImage.height;
-          
-          const cropX = (cropRect.x - selectedImage.x) * scaleX;
-          const cropY = (cropRect.y - selectedImage.y) * scaleY;
-          const cropWidth = cropRect.width * scaleX;
-          const cropHeight = cropRect.height * scaleY;
-          
-          canvas.width = cropWidth;
-          canvas.height = cropHeight;
-          
-          if (ctx) {
-            ctx.drawImage(
-              img,
-              Math.max(0, cropX),
-              Math.max(0, cropY),
-              cropWidth,
-              cropHeight,
-              0,
-              0,
-              cropWidth,
-              cropHeight
-            );
-            
-            // Update the image with cropped version
-            updateImage(selectedImageId, {
-              src: canvas.toDataURL(),
-              x: cropRect.x,
-              y: cropRect.y,
-              width: cropRect.width,
-              height: cropRect.height
-            });
-          }
-          
-          setCropMode(false);
-          setCropRect(null);
+  // The shared transformer fires once for the whole selection, so the result of a
+  // group scale or rotation is recorded as a single step
+  const handleTransformEnd = () => {
+    const nodes = transformerRef.current?.nodes() ?? [];
+    const changes = nodes.flatMap(node => {
+      const object = canvasObjects.find(candidate => candidate.id === node.id());
+      if (!object) return [];
+      if (object.type === 'freehand' || object.type === 'group') {
+        // Strokes and groups keep their scale so ink widths and children follow the resize
+        const after: Partial<CanvasObject> = {
+          x: node.x(),
+          y: node.y(),
+          rotation: node.rotation(),
+          scaleX: node.scaleX(),
+          scaleY: node.scaleY(),
         };
-        
-        img.src = selectedImage.src;
+        return [{ id: object.id, before: pickAttrs(object, after), after }];
       }
-    }
+      const transform = node.getTransform().copy();
+      const scaleX = node.scaleX();
+      const scaleY = node.scaleY();
+      // Flips stay in the sign of the scale while the size is baked in
+      const flipX = scaleX < 0 ? -1 : 1;
+      const flipY = scaleY < 0 ? -1 : 1;
+      node.scaleX(flipX);
+      node.scaleY(flipY);
+      const placement = { x: node.x(), y: node.y(), rotation: node.rotation(), scaleX: flipX, scaleY: flipY };
+      let after: Partial<CanvasObject>;
+      if (object.type === 'text') {
+        // Text keeps its scale at 1: side handles rewrap it, corner handles resize the font
+        const uniform = Math.abs(Math.abs(scaleX) - Math.abs(scaleY)) < 0.001;
+        after = {
+          ...placement,
+          ...withTextChanges(object, {
+            width: Math.max(5, object.width * Math.abs(scaleX)),
+            fontSize: uniform ? Math.max(1, object.fontSize * Math.abs(scaleY)) : object.fontSize,
+          }),
+        };
+      } else if (object.type === 'line') {
+        // Lines are stored unrotated, so bake the transform into the endpoints and
+        // reset the node by hand; the props it renders from may not change
+        const [start, end] = lineEndpoints({ ...object, x: 0, y: 0 });
+        const geometry = lineGeometry(transform.point(start), transform.point(end));
+        node.setAttrs({ x: geometry.x, y: geometry.y, rotation: 0, scaleX: 1, scaleY: 1, points: geometry.points });
+        after = geometry;
+      } else {
+        after = {
+          ...placement,
+          width: Math.max(5, object.width * Math.abs(scaleX)),
+          height: Math.max(5, object.height * Math.abs(scaleY)),
+          ...(object.type === 'shape' && object.tail
+            ? { tail: { x: object.tail.x * Math.abs(scaleX), y: object.tail.y * Math.abs(scaleY) } }
+            : {}),
+        };
+      }
+      return [{ id: object.id, before: pickAttrs(object, after), after }];
+    });
+    clearSnapGuides();
+    if (changes.length === 0) return;
+    executeCommand(updateObjectsCommand(
+      activeArtboard.id,
+      changes,
+      changes.length === 1 ? 'Transform object' : `Transform ${changes.length} objects`
+    ));
   };
 
-  const cancelCrop = () => {
-    setCropMode(false);
-    setCropRect(null);
+  // Placed pages follow pan, zoom, object and source changes once they settle
+  useEffect(() => {
+    const timer = window.setTimeout(() => sharpenPagesRef.current(), SHARPEN_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [canvasObjects, view.x, view.y, view.scale, sourceDocuments]);
+
+  // Keep the shared transformer attached to whatever is selected on the current page
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    const layer = contentLayerRef.current;
+    if (!transformer || !layer) return;
+    const nodes = cropMode
+      ? []
+      : layer.find('.canvas-object').filter(node =>
+        selectedIds.includes(node.id()) && !canvasObjects.find(object => object.id === node.id())?.locked
+      );
+    // A lone line is edited through its endpoint handles instead
+    const loneLine = nodes.length === 1 && canvasObjects.find(object => object.id === nodes[0].id())?.type === 'line';
+    transformer.nodes(loneLine ? [] : nodes);
+    transformer.getLayer()?.batchDraw();
+  }, [selectedIds, cropMode, canvasObjects]);
+
+  const zoomBy = (factor: number) => {
+    setView(prev => zoomAt(prev, { x: canvasSize.width / 2, y: canvasSize.height / 2 }, factor));
   };
 
-  const deleteSelected = () => {
-    if (selectedImageId) {
-      setCanvasImages(prev => prev.filter(img => img.id !== selectedImageId));
-      setSelectedImageId(null);
+  const fitToContent = () => {
+    const artboardBounds = {
+      x: -activeArtboard.bleed,
+      y: -activeArtboard.bleed,
+      width: activeArtboard.width + activeArtboard.bleed * 2,
+      height: activeArtboard.height + activeArtboard.bleed * 2,
+    };
+    const bounds = unionBounds([artboardBounds, ...canvasObjects.map(getObjectBounds)]) ?? artboardBounds;
+    setView(fitBounds(bounds, canvasSize.width, canvasSize.height));
+  };
+
+  const zoomToSelection = () => {
+    const bounds = unionBounds(selectedObjects.map(getObjectBounds));
+    if (!bounds) {
+      alert('Please select an image first');
+      return;
     }
+    setView(fitBounds(bounds, canvasSize.width, canvasSize.height, 80));
   };
 
-  const updateImage = useCallback((id: string, newAttrs: Partial<CanvasImage>) => {
-    setCanvasImages(prev => 
-      prev.map(img => img.id === id ? { ...img, ...newAttrs } : img)
-    );
-  }, []);
+  const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault();
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    // Trackpad pinch arrives as a ctrl + wheel event with small deltas
+    const factor = Math.exp(-e.evt.deltaY * (e.evt.ctrlKey ? 0.01 : 0.002));
+    setView(prev => zoomAt(prev, pointer, factor));
+  };
 
-  const selectImage = useCallback((id: string) => {
-    setSelectedImageId(id);
-  }, []);
+  const handleTouchMove = (e: Konva.KonvaEventObject<TouchEvent>) => {
+    const touches = e.evt.touches;
+    const stage = e.target.getStage();
+    if (touches.length !== 2 || !stage) return;
+    e.evt.preventDefault();
+    if (stage.isDragging()) stage.stopDrag();
+
+    const rect = stage.container().getBoundingClientRect();
+    const [a, b] = [touches[0], touches[1]];
+    const center = {
+      x: (a.clientX + b.clientX) / 2 - rect.left,
+      y: (a.clientY + b.clientY) / 2 - rect.top,
+    };
+    const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
 
-  const checkDeselect = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
-    const clickedOnEmpty = e.target === e.target.getStage();
-    if (clickedOnEmpty) {
-      setSelectedImageId(null);
+    const last = pinchRef.current;
+    if (last) {
+      setView(prev => {
+        const zoomed = zoomAt(prev, last.center, distance / last.distance);
+        return { ...zoomed, x: zoomed.x + center.x - last.center.x, y: zoomed.y + center.y - last.center.y };
+      });
     }
+    pinchRef.current = { distance, center };
   };
 
+  // Keyboard shortcuts read the latest actions through a ref so the listener is registered once
+  const shortcutActionsRef = useRef({ undo, redo, groupSelected, ungroupSelected });
+  shortcutActionsRef.current = { undo, redo, groupSelected, ungroupSelected };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        shortcutActionsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        shortcutActionsRef.current.redo();
+      } else if (key === 'g' && !e.shiftKey) {
+        e.preventDefault();
+        shortcutActionsRef.current.groupSelected();
+      } else if (key === 'g' && e.shiftKey) {
+        e.preventDefault();
+        shortcutActionsRef.current.ungroupSelected();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Space + drag pans the stage
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isTyping(e.target)) {
+        e.preventDefault();
+        setSpacePressed(true);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpacePressed(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
   // Get viewport dimensions
+  const hasObjectSettings = selectedText !== null || selectedVector !== null;
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+  const visibleRect = getVisibleRect(view, canvasSize.width, canvasSize.height);
+  const inspectedObjects = movableSelection();
+  const inspectorBounds = unionBounds(inspectedObjects.map(getObjectBounds));
 
   useEffect(() => {
     const updateCanvasSize = () => {
       setCanvasSize({
         width: window.innerWidth,
-        height: window.innerHeight - (selectedPages.length > 0 ? 180 : 120) // Account for header and bottom bar
+        // Account for header, restore banner, page strip, settings, object settings and bottom bar
+        height: window.innerHeight
+          - (selectedPages.length > 0 ? 260 : 200)
+          - (restorableSession ? 40 : 0)
+          - (hasObjectSettings ? 34 : 0)
       });
     };
 
     updateCanvasSize();
     window.addEventListener('resize', updateCanvasSize);
     return () => window.removeEventListener('resize', updateCanvasSize);
-  }, [selectedPages.length]);
+  }, [selectedPages.length, restorableSession, hasObjectSettings]);
+
+  // Offer the most recent stored session on startup
+  useEffect(() => {
+    listSessions()
+      .then(list => {
+        setSessions(list);
+        setRestorableSession(list[0] ?? null);
+      })
+      .catch(error => console.error('Error listing sessions:', error));
+  }, []);
+
+  // Autosave shortly after each change, once there's something worth keeping.
+  // Source PDFs are written once; later saves store only the layout and image tray.
+  useEffect(() => {
+    const sources = Object.values(sourceDocuments);
+    if (sources.length === 0 && artboards.every(artboard => artboard.objects.length === 0)) return;
+
+    const timer = window.setTimeout(() => {
+      const project = {
+        artboards,
+        activeArtboardId,
+        sources,
+        selectedPages: selectedPages.map(({ documentId, pageNumber }) => ({ documentId, pageNumber })),
+      };
+      saveSession(sessionId, sessionName ?? sources[0]?.name ?? 'Untitled session', project, extractedImages)
+        .then(() => listSessions())
+        .then(setSessions)
+        .catch(error => console.error('Autosave failed:', error));
+    }, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [artboards, activeArtboardId, sourceDocuments, selectedPages, extractedImages, sessionId, sessionName]);
 
   return (
     <div className="h-screen flex flex-col bg-gray-100 overflow-hidden">
@@ -891,7 +2249,8 @@ export default function PDFCanvasEditor() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf"
+              accept={`.pdf,${PROJECT_EXTENSION}`}
+              multiple
               onChange={handleFileUpload}
               className="hidden"
             />
@@ -899,7 +2258,22 @@ export default function PDFCanvasEditor() {
               onClick={() => fileInputRef.current?.click()}
               className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-medium"
             >
-              Upload PDF
+              Open PDF or Project
+            </button>
+            <button
+              onClick={saveProject}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-4 py-2 rounded-lg font-medium"
+            >
+              Save Project
+            </button>
+            <button
+              onClick={() => {
+                refreshSessions();
+                setSessionManagerOpen(true);
+              }}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-4 py-2 rounded-lg font-medium"
+            >
+              Sessions
             </button>
             {pdfFile && (
               <span className="text-gray-600 text-sm">
@@ -909,6 +2283,62 @@ export default function PDFCanvasEditor() {
             
             {/* Canvas Controls */}
             <div className="flex space-x-2">
+              <button
+                onClick={() => undo()}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded text-sm disabled:opacity-50"
+                disabled={history.past.length === 0 || cropMode}
+                title="Undo (Ctrl+Z)"
+              >
+                ↶
+              </button>
+              <button
+                onClick={() => redo()}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded text-sm disabled:opacity-50"
+                disabled={history.future.length === 0 || cropMode}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                ↷
+              </button>
+              <button
+                onClick={() => setHistoryPanelOpen(!historyPanelOpen)}
+                className={`px-3 py-2 rounded text-sm ${
+                  historyPanelOpen
+                    ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                    : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                }`}
+              >
+                History
+              </button>
+              <button
+                onClick={() => setLayersPanelOpen(!layersPanelOpen)}
+                className={`px-3 py-2 rounded text-sm ${
+                  layersPanelOpen
+                    ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                    : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                }`}
+              >
+                Layers
+              </button>
+              <button
+                onClick={() => setLibraryPanelOpen(!libraryPanelOpen)}
+                className={`px-3 py-2 rounded text-sm ${
+                  libraryPanelOpen
+                    ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                    : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                }`}
+              >
+                Library
+              </button>
+              <button
+                onClick={() => setGuidesPanelOpen(!guidesPanelOpen)}
+                className={`px-3 py-2 rounded text-sm ${
+                  guidesPanelOpen
+                    ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                    : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                }`}
+              >
+                Guides
+              </button>
               <button
                 onClick={() => setSnapEnabled(!snapEnabled)}
                 className={`px-3 py-2 rounded text-white text-sm ${
@@ -920,6 +2350,27 @@ export default function PDFCanvasEditor() {
               >
                 📌 {snapEnabled ? 'ON' : 'OFF'}
               </button>
+              {snapEnabled && (
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={snapTolerancePx}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value >= 1 && value <= 50) setSnapTolerancePx(value);
+                  }}
+                  className="w-14 border border-gray-300 rounded px-2 py-2 text-sm"
+                  title="Snap distance in screen pixels"
+                />
+              )}
+              <button
+                onClick={addText}
+                className="bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded text-sm"
+                disabled={cropMode}
+              >
+                Add Text
+              </button>
               <button
                 onClick={cropImage}
                 className={`px-3 py-2 rounded text-white text-sm ${
@@ -931,13 +2382,48 @@ export default function PDFCanvasEditor() {
                 {cropMode ? 'Apply Crop' : 'Crop'}
               </button>
               {cropMode && (
-                <button
-                  onClick={cancelCrop}
-                  className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded text-sm"
-                >
-                  Cancel
-                </button>
+                <>
+                  <select
+                    value={cropAspect}
+                    onChange={(e) => changeCropAspect(e.target.value as CropAspect)}
+                    className="px-2 py-2 rounded text-sm border border-gray-300"
+                    title="Crop aspect ratio"
+                  >
+                    {CROP_ASPECTS.map(aspect => (
+                      <option key={aspect.value} value={aspect.value}>{aspect.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={resetCrop}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded text-sm"
+                    title="Show the whole image again"
+                  >
+                    Reset Crop
+                  </button>
+                  <button
+                    onClick={cancelCrop}
+                    className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded text-sm"
+                  >
+                    Cancel
+                  </button>
+                </>
               )}
+              <button
+                onClick={groupSelected}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded text-sm disabled:opacity-50"
+                disabled={selectedObjects.length < 2 || cropMode}
+                title="Group (Ctrl+G)"
+              >
+                Group
+              </button>
+              <button
+                onClick={ungroupSelected}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded text-sm disabled:opacity-50"
+                disabled={!selectedObjects.some(object => object.type === 'group') || cropMode}
+                title="Ungroup (Ctrl+Shift+G)"
+              >
+                Ungroup
+              </button>
               <button
                 onClick={deleteSelected}
                 className="bg-red-500 hover:bg-red-600 text-white px-3 py-2 rounded text-sm"
@@ -949,8 +2435,39 @@ export default function PDFCanvasEditor() {
                 onClick={exportCanvas}
                 className="bg-purple-500 hover:bg-purple-600 text-white px-3 py-2 rounded text-sm"
                 disabled={cropMode}
+                title="Exports the current page only; Export PDF includes every page"
+              >
+                Export Page PNG
+              </button>
+              <select
+                value={exportPageSize}
+                onChange={(e) => setExportPageSize(e.target.value as ExportPageSize)}
+                className="border border-gray-300 rounded px-2 py-2 text-sm"
+                title="PDF page size"
+              >
+                {EXPORT_PAGE_SIZES.map(size => (
+                  <option key={size} value={size}>
+                    {size === 'artboard' ? 'Artboard size' : size}
+                  </option>
+                ))}
+              </select>
+              {exportPageSize !== 'artboard' && (
+                <select
+                  value={exportOrientation}
+                  onChange={(e) => setExportOrientation(e.target.value as PageOrientation)}
+                  className="border border-gray-300 rounded px-2 py-2 text-sm"
+                  title="PDF page orientation"
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              )}
+              <button
+                onClick={exportPdf}
+                className="bg-purple-700 hover:bg-purple-800 text-white px-3 py-2 rounded text-sm"
+                disabled={cropMode || isExportingPdf}
               >
-                Export
+                {isExportingPdf ? 'Exporting...' : 'Export PDF'}
               </button>
             </div>
           </div>
@@ -1010,39 +2527,90 @@ export default function PDFCanvasEditor() {
                     </button>
                   </>
                 )}
-                {extractedImages.length > 0 && (
-                  <button
-                    onClick={() => setImageSelectionMode(true)}
-                    className="bg-orange-500 hover:bg-orange-600 text-white px-3 py-2 rounded text-sm"
-                  >
-                    Extract Images ({extractedImages.length})
-                  </button>
-                )}
+                <button
+                  onClick={() => {
+                    setPageSelectionModalOpen(false);
+                    setPageOrganizerOpen(true);
+                  }}
+                  className="bg-teal-500 hover:bg-teal-600 text-white px-3 py-2 rounded text-sm"
+                >
+                  Organize Pages
+                </button>
+                <button
+                  onClick={() => {
+                    // Scans the selected pages, or every page when none are selected
+                    const selected = pages.filter(p => p.selected);
+                    scanPageImages(selected.length > 0 ? selected : pages);
+                    setImageSelectionMode(true);
+                  }}
+                  className="bg-orange-500 hover:bg-orange-600 text-white px-3 py-2 rounded text-sm"
+                >
+                  Extract Images{extractedImages.length > 0 && ` (${extractedImages.length})`}
+                </button>
               </div>
             </div>
+            {renderProgress && (
+              <div className="mb-4">
+                <RenderProgress {...renderProgress} onCancel={cancelPageJobs} />
+              </div>
+            )}
+            {!renderProgress && pages.some(page => !thumbnails[pageKey(page)]) && (
+              <button
+                onClick={() => queueThumbnails(pages.filter(page => !thumbnails[pageKey(page)]))}
+                className="mb-4 text-sm text-gray-600 hover:text-gray-800 underline"
+              >
+                Load remaining previews
+              </button>
+            )}
             
-            <div className="grid grid-cols-4 gap-4 max-h-96 overflow-y-auto">
-              {pages.map((page, index) => (
-                <div
-                  key={index}
-                  className={`border-2 rounded-lg p-2 cursor-pointer transition-all relative ${
-                    page.selected ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
-                  }`}
-                  onClick={() => togglePageSelection(index)}
-                >
-                  <NextImage
-                    src={page.canvas.toDataURL()}
-                    alt={`Page ${page.pageNumber}`}
-                    width={200}
-                    height={250}
-                    className="w-full h-auto rounded"
-                  />
-                  <p className="text-center mt-2 text-sm">Page {page.pageNumber}</p>
-                  {page.extractedImages && page.extractedImages.length > 0 && (
-                    <p className="text-center text-xs text-blue-600 mt-1">
-                      {page.extractedImages.length} images detected
-                    </p>
-                  )}
+            {/* Pages grouped by source PDF, in upload order */}
+            <div className="max-h-96 overflow-y-auto space-y-4">
+              {Object.values(sourceDocuments).filter(source => pages.some(page => page.documentId === source.id)).map(source => (
+                <div key={source.id} id={`source-pages-${source.id}`}>
+                  <h3 className="font-semibold text-gray-700 mb-2">{source.name}</h3>
+                  <div className="grid grid-cols-4 gap-4">
+                    {pages.map((page, index) => page.documentId !== source.id ? null : (
+                      <div
+                        key={index}
+                        className={`border-2 rounded-lg p-2 cursor-pointer transition-all relative ${
+                          page.selected ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+                        }`}
+                        onClick={() => togglePageSelection(index)}
+                      >
+                        {thumbnails[pageKey(page)] ? (
+                          <NextImage
+                            src={thumbnails[pageKey(page)]}
+                            alt={`Page ${page.pageNumber}`}
+                            width={200}
+                            height={250}
+                            className="w-full h-auto rounded"
+                          />
+                        ) : (
+                          <div className="w-full aspect-[4/5] rounded bg-gray-100 animate-pulse" />
+                        )}
+                        <p className="text-center mt-2 text-sm">Page {page.pageNumber}</p>
+                        {index < pages.length - 1 && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleSplitBoundary(index + 1);
+                            }}
+                            className={`absolute top-1 right-1 px-1 rounded text-sm ${
+                              splitBoundaries.includes(index + 1) ? 'bg-red-500 text-white' : 'bg-white bg-opacity-80 text-gray-500 hover:text-gray-800'
+                            }`}
+                            title="Split after this page"
+                          >
+                            ✂
+                          </button>
+                        )}
+                        {page.extractedImages && page.extractedImages.length > 0 && (
+                          <p className="text-center text-xs text-blue-600 mt-1">
+                            {page.extractedImages.length} images detected
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                 </div>
               ))}
             </div>
@@ -1069,12 +2637,33 @@ export default function PDFCanvasEditor() {
                 )}
               </div>
             </div>
+
+            <SplitControls
+              selectedCount={pages.filter(p => p.selected).length}
+              boundaryCount={splitBoundaries.length}
+              busy={isSplitting}
+              onExtractSelected={() => downloadSplitParts([{ label: 'extract', pages: pages.filter(p => p.selected) }])}
+              onSplitEvery={(pageCount) => downloadSplitParts(numberedParts(chunkEvery(pages, pageCount)))}
+              onSplitAtBoundaries={() => downloadSplitParts(numberedParts(splitBefore(pages, splitBoundaries)))}
+              onSplitByBookmarks={splitByBookmarks}
+            />
           </div>
         </div>
       )}
 
+      {pageOrganizerOpen && pages.length > 0 && (
+        <PageOrganizer
+          pages={pages}
+          thumbnails={thumbnails}
+          sourceNames={Object.fromEntries(Object.values(sourceDocuments).map(source => [source.id, source.name]))}
+          onMergePdf={loadMergedDocument}
+          onDownload={downloadOrganizedPdf}
+          onClose={() => setPageOrganizerOpen(false)}
+        />
+      )}
+
       {/* Extracted Images Selection Modal */}
-      {imageSelectionMode && extractedImages.length > 0 && (
+      {imageSelectionMode && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl p-6 max-w-6xl max-h-3/4 overflow-auto">
             <div className="flex items-center justify-between mb-4">
@@ -1107,6 +2696,14 @@ export default function PDFCanvasEditor() {
                 </button>
               </div>
             </div>
+            {renderProgress && (
+              <div className="mb-4">
+                <RenderProgress {...renderProgress} onCancel={cancelPageJobs} />
+              </div>
+            )}
+            {extractedImages.length === 0 && !renderProgress && (
+              <p className="text-gray-500 italic">No images found on the scanned pages</p>
+            )}
             
             <div className="grid grid-cols-6 gap-3 max-h-96 overflow-y-auto">
               {extractedImages.map((image) => (
@@ -1124,11 +2721,11 @@ export default function PDFCanvasEditor() {
                     height={150}
                     className="w-full h-auto rounded"
                   />
-                  <p className="text-center mt-2 text-xs text-gray-600">
-                    Page {image.pageNumber}
+                  <p className="text-center mt-2 text-xs text-gray-600 truncate">
+                    {sourceDocuments[image.documentId]?.name} p. {image.pageNumber}
                   </p>
                   <p className="text-center text-xs text-gray-500">
-                    {image.width} × {image.height}
+                    {image.naturalWidth} × {image.naturalHeight}
                   </p>
                 </div>
               ))}
@@ -1138,11 +2735,26 @@ export default function PDFCanvasEditor() {
               <div className="text-sm text-gray-600">
                 {extractedImages.filter(img => img.selected).length} of {extractedImages.length} images selected
               </div>
+              <div className="text-xs text-gray-500">
+                Embedded and inline bitmaps only; image masks and vector artwork are not extracted
+              </div>
             </div>
           </div>
         </div>
       )}
 
+      {/* Session Manager Modal */}
+      {sessionManagerOpen && (
+        <SessionManager
+          sessions={sessions}
+          currentSessionId={sessionId}
+          onOpen={restoreSession}
+          onRename={renameStoredSession}
+          onDelete={deleteStoredSession}
+          onClose={() => setSessionManagerOpen(false)}
+        />
+      )}
+
       {/* Bulk Import Confirmation Modal */}
       {bulkImportMode && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1170,90 +2782,449 @@ export default function PDFCanvasEditor() {
         </div>
       )}
 
+      {/* Crash recovery */}
+      {restorableSession && (
+        <div className="flex-shrink-0 bg-yellow-100 border-b border-yellow-300 px-4 py-2 flex items-center justify-between text-sm">
+          <span className="text-yellow-900">
+            A previous session &ldquo;{restorableSession.name}&rdquo; from {new Date(restorableSession.updatedAt).toLocaleString()} was found.
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => restoreSession(restorableSession.id)}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded"
+            >
+              Restore previous session
+            </button>
+            <button
+              onClick={() => setRestorableSession(null)}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-1 rounded"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Artboard strip */}
+      <PageStrip
+        artboards={artboards}
+        activeArtboardId={activeArtboard.id}
+        onSelect={switchArtboard}
+        onAdd={addArtboard}
+        onDuplicate={duplicateArtboardById}
+        onDelete={deleteArtboard}
+        onMove={reorderArtboards}
+      />
+      <ArtboardSettings
+        artboard={activeArtboard}
+        unit={displayUnit}
+        onUnitChange={setDisplayUnit}
+        onChange={(settings) => updateArtboardSettings(activeArtboard.id, settings)}
+      />
+
+      {selectedText && (
+        <TextSettings text={selectedText} onChange={changeTextStyle} />
+      )}
+      {selectedVector && (
+        <ShapeSettings object={selectedVector} onChange={changeShapeStyle} />
+      )}
+
       {/* Fullscreen Canvas Area */}
-      <div className="flex-1 bg-gray-900 overflow-hidden">
+      <div className="flex-1 bg-gray-900 overflow-hidden relative">
+        {editingText && (
+          <TextEditor
+            key={editingText.id}
+            text={editingText}
+            view={view}
+            onCommit={commitTextEdit}
+            onCancel={() => setEditingTextId(null)}
+          />
+        )}
+
+        <ToolPalette tool={tool} onChange={setTool} />
+
+        <Rulers
+          width={canvasSize.width}
+          height={canvasSize.height}
+          originX={view.x}
+          originY={view.y}
+          scale={view.scale}
+          unit={displayUnit}
+          onGuideDrag={(axis, position) => setGuideDraft({ axis, position })}
+          onGuideDrop={dropRulerGuide}
+        />
+
+        {historyPanelOpen && (
+          <HistoryPanel
+            history={history}
+            onUndo={undo}
+            onRedo={redo}
+            onClose={() => setHistoryPanelOpen(false)}
+          />
+        )}
+
+        {/* Zoom controls and minimap */}
+        <div className="absolute right-2 z-20 flex flex-col items-end space-y-2" style={{ top: RULER_SIZE + 8 }}>
+          <div className="flex space-x-1 bg-gray-700 bg-opacity-90 rounded p-1 text-white text-xs">
+            <button onClick={() => zoomBy(1 / ZOOM_STEP)} className="px-2 py-1 rounded hover:bg-gray-600" title="Zoom out">−</button>
+            <button
+              onClick={() => setView(prev => zoomAt(prev, { x: canvasSize.width / 2, y: canvasSize.height / 2 }, 1 / prev.scale))}
+              className="px-2 py-1 rounded hover:bg-gray-600 w-14"
+              title="Reset to 100%"
+            >
+              {Math.round(view.scale * 100)}%
+            </button>
+            <button onClick={() => zoomBy(ZOOM_STEP)} className="px-2 py-1 rounded hover:bg-gray-600" title="Zoom in">+</button>
+            <button onClick={fitToContent} className="px-2 py-1 rounded hover:bg-gray-600">Fit</button>
+            <button
+              onClick={zoomToSelection}
+              className="px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+              disabled={!selectedObjectId}
+            >
+              Selection
+            </button>
+          </div>
+          <Minimap
+            artboard={{
+              x: -activeArtboard.bleed,
+              y: -activeArtboard.bleed,
+              width: activeArtboard.width + activeArtboard.bleed * 2,
+              height: activeArtboard.height + activeArtboard.bleed * 2,
+            }}
+            objects={canvasObjects.map(getObjectBounds)}
+            view={view}
+            viewportWidth={canvasSize.width}
+            viewportHeight={canvasSize.height}
+            onNavigate={(point) => setView(prev => centerOn(prev, point, canvasSize.width, canvasSize.height))}
+          />
+          {selectedObjects.length > 0 && !cropMode && (
+            <AlignControls
+              selectionCount={selectedObjects.filter(object => !object.locked).length}
+              reference={alignReference}
+              onReferenceChange={setAlignReference}
+              onAlign={alignSelected}
+              onDistribute={distributeSelected}
+            />
+          )}
+          {inspectorBounds && !cropMode && (
+            <TransformInspector
+              object={inspectedObjects.length === 1 ? inspectedObjects[0] : null}
+              bounds={inspectorBounds}
+              unit={displayUnit}
+              aspectLocked={aspectLocked}
+              onAspectLockedChange={setAspectLocked}
+              onMove={moveSelectionTo}
+              onResize={(width, height) => transformSelected(object => resizeObject(object, width, height), 'Resize object')}
+              onRotate={(rotation) => transformSelected(object => rotateObject(object, rotation - object.rotation), 'Rotate object')}
+              onRotateBy={rotateSelectedBy}
+              onFlip={flipSelected}
+            />
+          )}
+          {libraryPanelOpen && (
+            <SourceLibrary
+              documents={Object.values(sourceDocuments).map(source => ({
+                id: source.id,
+                name: source.name,
+                pageCount: pages.filter(page => page.documentId === source.id).length,
+                imageCount: extractedImages.filter(image => image.documentId === source.id).length,
+                placedCount: artboards
+                  .flatMap(artboard => flattenObjects(artboard.objects))
+                  .filter(object => object.type === 'image' && object.source?.documentId === source.id).length,
+              }))}
+              onAdd={() => fileInputRef.current?.click()}
+              onShowPages={showDocumentPages}
+              onRemove={removeSourceDocument}
+              onClose={() => setLibraryPanelOpen(false)}
+            />
+          )}
+          {guidesPanelOpen && (
+            <GuidesPanel
+              guides={activeArtboard.guides}
+              unit={displayUnit}
+              onAdd={(axis) => updateGuides(
+                [...activeArtboard.guides, createGuide(axis, axis === 'x' ? activeArtboard.width / 2 : activeArtboard.height / 2)],
+                'Add guide'
+              )}
+              onChange={updateGuides}
+              onClose={() => setGuidesPanelOpen(false)}
+            />
+          )}
+          {layersPanelOpen && (
+            <LayersPanel
+              objects={canvasObjects}
+              selectedIds={selectedIds}
+              onSelect={selectLayer}
+              onMove={(fromIndex, toIndex) => reorderLayers(
+                moveLayer(canvasObjects.map(object => object.id), fromIndex, toIndex),
+                'Reorder objects'
+              )}
+              onBringToFront={() => reorderLayers(bringToFront(canvasObjects.map(object => object.id), selectedIds), 'Bring to front')}
+              onSendToBack={() => reorderLayers(sendToBack(canvasObjects.map(object => object.id), selectedIds), 'Send to back')}
+              onToggleLocked={toggleLayerLocked}
+              onToggleHidden={toggleLayerHidden}
+              onRename={(id, name) => updateObject(id, { name }, 'Rename object')}
+              onClose={() => setLayersPanelOpen(false)}
+            />
+          )}
+        </div>
+
         <Stage
           ref={stageRef}
           width={canvasSize.width}
           height={canvasSize.height}
-          onMouseDown={checkDeselect}
-          onTouchStart={checkDeselect}
+          x={view.x}
+          y={view.y}
+          scaleX={view.scale}
+          scaleY={view.scale}
+          draggable={spacePressed}
+          style={{ cursor: spacePressed ? 'grab' : tool !== 'select' ? 'crosshair' : undefined }}
+          onDragMove={(e) => {
+            if (e.target === e.target.getStage()) {
+              setView(prev => ({ ...prev, x: e.target.x(), y: e.target.y() }));
+            }
+          }}
+          onWheel={handleWheel}
+          onTouchMove={(e) => {
+            handleTouchMove(e);
+            handleStagePointerMove(e);
+          }}
+          onTouchEnd={(e) => {
+            pinchRef.current = null;
+            handleStagePointerUp(e);
+          }}
+          onPointerDown={startFreehand}
+          onPointerMove={extendFreehand}
+          onPointerUp={finishFreehand}
+          onMouseDown={handleStagePointerDown}
+          onTouchStart={handleStagePointerDown}
+          onMouseMove={handleStagePointerMove}
+          onMouseUp={handleStagePointerUp}
         >
           {/* Grid and Guide Layer (excluded from export) */}
           <Layer name="grid-layer">
+            {/* Artboard sheet */}
+            <Rect
+              x={0}
+              y={0}
+              width={activeArtboard.width}
+              height={activeArtboard.height}
+              fill="#ffffff"
+              shadowColor="#000000"
+              shadowBlur={10}
+              shadowOpacity={0.4}
+              listening={false}
+            />
             {/* Grid overlay when snapping is enabled */}
             {snapEnabled && (
               <>
-                {Array.from({ length: Math.ceil(canvasSize.width / GRID_SIZE) }, (_, i) => (
+                {Array.from({ length: Math.ceil(activeArtboard.width / GRID_SIZE) }, (_, i) => (
                   <Rect
                     key={`grid-v-${i}`}
                     x={i * GRID_SIZE}
                     y={0}
-                    width={1}
-                    height={canvasSize.height}
+                    width={1 / view.scale}
+                    height={activeArtboard.height}
                     fill="#444444"
                     opacity={0.3}
                   />
                 ))}
-                {Array.from({ length: Math.ceil(canvasSize.height / GRID_SIZE) }, (_, i) => (
+                {Array.from({ length: Math.ceil(activeArtboard.height / GRID_SIZE) }, (_, i) => (
                   <Rect
                     key={`grid-h-${i}`}
                     x={0}
                     y={i * GRID_SIZE}
-                    width={canvasSize.width}
-                    height={1}
+                    width={activeArtboard.width}
+                    height={1 / view.scale}
                     fill="#444444"
                     opacity={0.3}
                   />
                 ))}
                 {/* Center guides */}
                 <Rect
-                  x={canvasSize.width / 2 - 0.5}
+                  x={activeArtboard.width / 2 - 0.5 / view.scale}
                   y={0}
-                  width={1}
-                  height={canvasSize.height}
+                  width={1 / view.scale}
+                  height={activeArtboard.height}
                   fill="#ff6b6b"
                   opacity={0.6}
                 />
                 <Rect
                   x={0}
-                  y={canvasSize.height / 2 - 0.5}
-                  width={canvasSize.width}
-                  height={1}
+                  y={activeArtboard.height / 2 - 0.5 / view.scale}
+                  width={activeArtboard.width}
+                  height={1 / view.scale}
                   fill="#ff6b6b"
                   opacity={0.6}
                 />
               </>
             )}
+            {/* Bleed, margin and safe area guides */}
+            {activeArtboard.bleed > 0 && (
+              <Rect
+                x={-activeArtboard.bleed}
+                y={-activeArtboard.bleed}
+                width={activeArtboard.width + activeArtboard.bleed * 2}
+                height={activeArtboard.height + activeArtboard.bleed * 2}
+                stroke="#ef4444"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                listening={false}
+              />
+            )}
+            {activeArtboard.margin > 0 && (
+              <Rect
+                x={activeArtboard.margin}
+                y={activeArtboard.margin}
+                width={Math.max(0, activeArtboard.width - activeArtboard.margin * 2)}
+                height={Math.max(0, activeArtboard.height - activeArtboard.margin * 2)}
+                stroke="#d946ef"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                listening={false}
+              />
+            )}
+            {activeArtboard.safeArea > 0 && (
+              <Rect
+                x={activeArtboard.safeArea}
+                y={activeArtboard.safeArea}
+                width={Math.max(0, activeArtboard.width - activeArtboard.safeArea * 2)}
+                height={Math.max(0, activeArtboard.height - activeArtboard.safeArea * 2)}
+                stroke="#06b6d4"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                dash={[4, 4]}
+                listening={false}
+              />
+            )}
           </Layer>
 
           {/* Content Layer (included in export) */}
-          <Layer name="content-layer">
-            {canvasImages.map((image) => (
+          <Layer ref={contentLayerRef} name="content-layer" listening={!spacePressed && tool === 'select'}>
+            {canvasObjects.map((object) => object.type === 'group' ? (
+              <CanvasGroupComponent
+                key={object.id}
+                group={object}
+                rasters={pageRasters}
+                onSelect={(e) => selectObject(object.id, e)}
+                onDragStart={() => handleObjectDragStart(object.id)}
+                onDragMove={(e) => handleObjectDragMove(object.id, e)}
+                onDragEnd={() => handleObjectDragEnd(object.id)}
+                onTransform={(e) => handleObjectTransform(object.id, e)}
+              />
+            ) : object.type === 'freehand' ? (
+              <CanvasFreehandComponent
+                key={object.id}
+                stroke={object}
+                onSelect={(e) => selectObject(object.id, e)}
+                onDragStart={() => handleObjectDragStart(object.id)}
+                onDragMove={(e) => handleObjectDragMove(object.id, e)}
+                onDragEnd={() => handleObjectDragEnd(object.id)}
+                onTransform={(e) => handleObjectTransform(object.id, e)}
+              />
+            ) : object.type === 'shape' ? (
+              <CanvasShapeComponent
+                key={object.id}
+                shape={object}
+                onSelect={(e) => selectObject(object.id, e)}
+                onDragStart={() => handleObjectDragStart(object.id)}
+                onDragMove={(e) => handleObjectDragMove(object.id, e)}
+                onDragEnd={() => handleObjectDragEnd(object.id)}
+                onTransform={(e) => handleObjectTransform(object.id, e)}
+              />
+            ) : object.type === 'line' ? (
+              <CanvasLineComponent
+                key={object.id}
+                line={object}
+                onSelect={(e) => selectObject(object.id, e)}
+                onDragStart={() => handleObjectDragStart(object.id)}
+                onDragMove={(e) => handleObjectDragMove(object.id, e)}
+                onDragEnd={() => handleObjectDragEnd(object.id)}
+                onTransform={(e) => handleObjectTransform(object.id, e)}
+              />
+            ) : object.type === 'text' ? (
+              <CanvasTextComponent
+                key={object.id}
+                text={object}
+                hidden={object.id === editingTextId}
+                onSelect={(e) => selectObject(object.id, e)}
+                onEdit={() => !cropMode && setEditingTextId(object.id)}
+                onDragStart={() => handleObjectDragStart(object.id)}
+                onDragMove={(e) => handleObjectDragMove(object.id, e)}
+                onDragEnd={() => handleObjectDragEnd(object.id)}
+                onTransform={(e) => handleObjectTransform(object.id, e)}
+              />
+            ) : (
               <CanvasImageComponent
-                key={image.id}
-                image={image}
-                isSelected={image.id === selectedImageId && !cropMode}
-                onSelect={() => !cropMode && selectImage(image.id)}
-                onChange={(newAttrs) => !cropMode && updateImage(image.id, newAttrs)}
-                applySnapping={applySnapping}
-                onSnapGuides={setActiveSnapGuides}
-                getSnapPoints={getSnapPoints}
-                snapTolerance={SNAP_TOLERANCE}
+                key={object.id}
+                image={object}
+                hidden={object.id === croppingImage?.id}
+                raster={pageRasters[object.id]}
+                onSelect={(e) => selectObject(object.id, e)}
+                onDragStart={() => handleObjectDragStart(object.id)}
+                onDragMove={(e) => handleObjectDragMove(object.id, e)}
+                onDragEnd={() => handleObjectDragEnd(object.id)}
+                onTransform={(e) => handleObjectTransform(object.id, e)}
               />
             ))}
+            {/* Stroke in progress; drawn with the content so it looks exactly like the result */}
+            {freehandSamples && freehandTool && (
+              <Path
+                data={freehandPath({
+                  points: freehandSamples.flatMap(sample => [sample.x, sample.y]),
+                  pressures: freehandTool === 'pen' && freehandSamples.every(sample => sample.pressure !== undefined)
+                    ? freehandSamples.map(sample => sample.pressure!)
+                    : null,
+                  strokeWidth: FREEHAND_STYLES[freehandTool].strokeWidth,
+                })}
+                fill={FREEHAND_STYLES[freehandTool].stroke}
+                opacity={FREEHAND_STYLES[freehandTool].opacity}
+                globalCompositeOperation={freehandTool === 'highlighter' ? 'multiply' : undefined}
+                listening={false}
+              />
+            )}
           </Layer>
 
           {/* Active Snap Guide Layer (excluded from export) */}
           <Layer name="guide-layer">
+            {/* Ruler guides; drag one back onto its ruler to delete it */}
+            {activeArtboard.guides.map(guide => (
+              <Line
+                key={guide.id}
+                points={guide.axis === 'x'
+                  ? [guide.position, visibleRect.y, guide.position, visibleRect.y + visibleRect.height]
+                  : [visibleRect.x, guide.position, visibleRect.x + visibleRect.width, guide.position]}
+                stroke="#06b6d4"
+                strokeWidth={1 / view.scale}
+                hitStrokeWidth={6 / view.scale}
+                draggable={!guide.locked && !cropMode}
+                listening={!guide.locked}
+                onDragMove={(e) => {
+                  if (guide.axis === 'x') e.target.y(0);
+                  else e.target.x(0);
+                }}
+                onDragEnd={(e) => handleGuideDragEnd(guide, e)}
+                onDblClick={() => setGuidesPanelOpen(true)}
+              />
+            ))}
+            {guideDraft && guideDraft.position !== null && (
+              <Line
+                points={guideDraft.axis === 'x'
+                  ? [guideDraft.position, visibleRect.y, guideDraft.position, visibleRect.y + visibleRect.height]
+                  : [visibleRect.x, guideDraft.position, visibleRect.x + visibleRect.width, guideDraft.position]}
+                stroke="#06b6d4"
+                strokeWidth={1 / view.scale}
+                dash={[4 / view.scale, 4 / view.scale]}
+                listening={false}
+              />
+            )}
             {/* Active snap guides */}
             {snapEnabled && activeSnapGuides.x.map((x, i) => (
               <Rect
                 key={`snap-guide-x-${i}`}
                 x={x}
-                y={0}
-                width={2}
-                height={canvasSize.height}
+                y={visibleRect.y}
+                width={2 / view.scale}
+                height={visibleRect.height}
                 fill="#00ff00"
                 opacity={0.8}
               />
@@ -1261,55 +3232,137 @@ export default function PDFCanvasEditor() {
             {snapEnabled && activeSnapGuides.y.map((y, i) => (
               <Rect
                 key={`snap-guide-y-${i}`}
-                x={0}
+                x={visibleRect.x}
                 y={y}
-                width={canvasSize.width}
-                height={2}
+                width={visibleRect.width}
+                height={2 / view.scale}
                 fill="#00ff00"
                 opacity={0.8}
               />
             ))}
+            {/* Equal-spacing hints with the gap size */}
+            {snapEnabled && spacingHints.flatMap((hint, i) => hint.gaps.map((gap, j) => {
+              const horizontal = hint.axis === 'x';
+              const middle = (gap.start + gap.end) / 2;
+              const label = `${formatUnit(hint.distance, displayUnit)} ${displayUnit}`;
+              return (
+                <React.Fragment key={`spacing-${i}-${j}`}>
+                  <Rect
+                    x={horizontal ? gap.start : gap.cross - 0.5 / view.scale}
+                    y={horizontal ? gap.cross - 0.5 / view.scale : gap.start}
+                    width={horizontal ? gap.end - gap.start : 1 / view.scale}
+                    height={horizontal ? 1 / view.scale : gap.end - gap.start}
+                    fill="#ec4899"
+                    listening={false}
+                  />
+                  <KonvaText
+                    x={horizontal ? middle : gap.cross + 4 / view.scale}
+                    y={horizontal ? gap.cross + 4 / view.scale : middle}
+                    text={label}
+                    fontSize={11 / view.scale}
+                    fill="#ec4899"
+                    listening={false}
+                  />
+                </React.Fragment>
+              );
+            }))}
+
+            {/* Selection transformer, shared by all selected objects */}
+            <Transformer
+              ref={transformerRef}
+              flipEnabled
+              boundBoxFunc={(oldBox, newBox) => {
+                if (Math.abs(newBox.width) < 5 || Math.abs(newBox.height) < 5) {
+                  return oldBox;
+                }
+                return newBox;
+              }}
+              onTransformEnd={handleTransformEnd}
+            />
+
+            {/* Endpoint handles for a selected line or callout pointer */}
+            {selectedVector?.type === 'line' && !selectedVector.locked && lineEndpoints(selectedVector).map((point, index) => (
+              <Circle
+                key={`line-handle-${index}`}
+                x={point.x}
+                y={point.y}
+                radius={6 / view.scale}
+                fill="#ffffff"
+                stroke="#3b82f6"
+                strokeWidth={2 / view.scale}
+                draggable
+                onDragMove={(e) => moveLineEndpoint(selectedVector, index as 0 | 1, e, false)}
+                onDragEnd={(e) => moveLineEndpoint(selectedVector, index as 0 | 1, e, true)}
+              />
+            ))}
+            {selectedVector?.type === 'shape' && selectedVector.tail && !selectedVector.locked && (
+              <Circle
+                {...applyToPoint(
+                  nodeMatrix(selectedVector.x, selectedVector.y, selectedVector.rotation, selectedVector.scaleX, selectedVector.scaleY),
+                  selectedVector.tail.x,
+                  selectedVector.tail.y
+                )}
+                radius={6 / view.scale}
+                fill="#ffffff"
+                stroke="#3b82f6"
+                strokeWidth={2 / view.scale}
+                draggable
+                onDragMove={(e) => moveCalloutTail(selectedVector, e, false)}
+                onDragEnd={(e) => moveCalloutTail(selectedVector, e, true)}
+              />
+            )}
 
-            {/* Crop rectangle (excluded from export) */}
-            {cropMode && cropRect && (
-              <>
-                <Rect
-                  x={cropRect.x}
-                  y={cropRect.y}
-                  width={cropRect.width}
-                  height={cropRect.height}
-                  fill="transparent"
-                  stroke="red"
-                  strokeWidth={2}
-                  strokeDashArray={[5, 5]}
-                  draggable
-                  onDragEnd={(e) => {
-                    setCropRect({
-                      ...cropRect,
-                      x: e.target.x(),
-                      y: e.target.y()
-                    });
-                  }}
-                />
-                <Transformer
-                  nodes={stageRef.current?.findOne('Rect') ? [stageRef.current.findOne('Rect')] : []}
-                  onTransformEnd={(e) => {
-                    const node = e.target;
-                    const scaleX = node.scaleX();
-                    const scaleY = node.scaleY();
-                    
-                    node.scaleX(1);
-                    node.scaleY(1);
-                    
-                    setCropRect({
-                      x: node.x(),
-                      y: node.y(),
-                      width: Math.max(10, node.width() * scaleX),
-                      height: Math.max(10, node.height() * scaleY)
-                    });
-                  }}
-                />
-              </>
+            {/* Shape being drawn */}
+            {drawing && (tool === 'line' || tool === 'arrow') && (
+              <Arrow
+                points={[drawing.start.x, drawing.start.y, drawing.end.x, drawing.end.y]}
+                stroke="#3b82f6"
+                fill="#3b82f6"
+                strokeWidth={2}
+                strokeScaleEnabled={false}
+                pointerAtEnding={tool === 'arrow'}
+                listening={false}
+              />
+            )}
+            {drawing && tool !== 'line' && tool !== 'arrow' && (
+              <Rect
+                x={Math.min(drawing.start.x, drawing.end.x)}
+                y={Math.min(drawing.start.y, drawing.end.y)}
+                width={Math.abs(drawing.end.x - drawing.start.x)}
+                height={Math.abs(drawing.end.y - drawing.start.y)}
+                cornerRadius={tool === 'ellipse' ? Math.min(Math.abs(drawing.end.x - drawing.start.x), Math.abs(drawing.end.y - drawing.start.y)) / 2 : 0}
+                stroke="#3b82f6"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                dash={[4, 4]}
+                listening={false}
+              />
+            )}
+
+            {/* Rubber-band selection */}
+            {marquee && (
+              <Rect
+                x={marquee.x}
+                y={marquee.y}
+                width={marquee.width}
+                height={marquee.height}
+                fill="rgba(59, 130, 246, 0.1)"
+                stroke="#3b82f6"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                listening={false}
+              />
+            )}
+
+            {/* Crop editor (excluded from export) */}
+            {croppingImage && cropRect && uncroppedBox && (
+              <CropOverlay
+                image={croppingImage}
+                uncropped={uncroppedBox}
+                frame={cropRect}
+                aspect={getCropAspectRatio(cropAspect)}
+                onChange={setCropRect}
+              />
             )}
           </Layer>
         </Stage>
@@ -1363,7 +3416,7 @@ export default function PDFCanvasEditor() {
           </div>
           <div className="flex space-x-3 overflow-x-auto pb-2" style={{ maxHeight: '120px' }}>
             {selectedPages.map((page, index) => {
-              const isSelected = selectedBottomBarImages.some(img => img.pageNumber === page.pageNumber);
+              const isSelected = selectedBottomBarImages.some(img => isSamePage(img, page));
               return (
                 <div
                   key={index}
@@ -1374,13 +3427,17 @@ export default function PDFCanvasEditor() {
                   }`}
                   onClick={() => toggleBottomBarImageSelection(page)}
                 >
-                  <NextImage
-                    src={page.canvas.toDataURL()}
-                    alt={`Selected Page ${page.pageNumber}`}
-                    width={64}
-                    height={80}
-                    className="w-16 h-20 object-contain rounded"
-                  />
+                  {thumbnails[pageKey(page)] ? (
+                    <NextImage
+                      src={thumbnails[pageKey(page)]}
+                      alt={`Selected Page ${page.pageNumber}`}
+                      width={64}
+                      height={80}
+                      className="w-16 h-20 object-contain rounded"
+                    />
+                  ) : (
+                    <div className="w-16 h-20 rounded bg-gray-100 animate-pulse" />
+                  )}
                   <p className="text-center mt-1 text-xs text-gray-600">Page {page.pageNumber}</p>
                 </div>
               );
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { ALIGN_MODES, AlignMode, AlignReference, DistributeAxis } from '@/lib/align';
+
+interface AlignControlsProps {
+  selectionCount: number;
+  reference: AlignReference;
+  onReferenceChange: (reference: AlignReference) => void;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+// Align and distribute buttons, floating with the zoom controls
+export default function AlignControls({
+  selectionCount,
+  reference,
+  onReferenceChange,
+  onAlign,
+  onDistribute,
+}: AlignControlsProps) {
+  // Aligning a single object only makes sense against the page; distributing
+  // needs a third object unless the page edges provide the outer positions
+  const canAlign = selectionCount > 1 || (selectionCount === 1 && reference === 'artboard');
+  const canDistribute = selectionCount > 2 || (selectionCount === 2 && reference === 'artboard');
+
+  return (
+    <div className="flex items-center space-x-1 bg-gray-700 bg-opacity-90 rounded p-1 text-white text-xs">
+      <select
+        value={reference}
+        onChange={(e) => onReferenceChange(e.target.value as AlignReference)}
+        className="bg-gray-600 rounded px-1 py-1"
+        title="Align relative to"
+      >
+        <option value="selection">Selection</option>
+        <option value="artboard">Page</option>
+      </select>
+      {ALIGN_MODES.map(mode => (
+        <button
+          key={mode.value}
+          onClick={() => onAlign(mode.value)}
+          className="px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+          disabled={!canAlign}
+          title={mode.label}
+        >
+          {mode.icon}
+        </button>
+      ))}
+      <button
+        onClick={() => onDistribute('horizontal')}
+        className="px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+        disabled={!canDistribute}
+        title="Distribute horizontally"
+      >
+        ⋯
+      </button>
+      <button
+        onClick={() => onDistribute('vertical')}
+        className="px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+        disabled={!canDistribute}
+        title="Distribute vertically"
+      >
+        ⋮
+      </button>
+    </div>
+  );
+}
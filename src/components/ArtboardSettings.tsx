@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import { Artboard } from '@/lib/types';
+import { PAGE_PRESETS, UNITS, Unit, findPagePreset, toPx } from '@/lib/units';
+import UnitInput from './UnitInput';
+
+type ArtboardSettingsValues = Pick<Artboard, 'width' | 'height' | 'margin' | 'bleed' | 'safeArea'>;
+
+interface ArtboardSettingsProps {
+  artboard: Artboard;
+  unit: Unit;
+  onUnitChange: (unit: Unit) => void;
+  onChange: (settings: Partial<ArtboardSettingsValues>) => void;
+}
+
+export default function ArtboardSettings({ artboard, unit, onUnitChange, onChange }: ArtboardSettingsProps) {
+  const preset = findPagePreset(artboard.width, artboard.height);
+  const landscape = artboard.width > artboard.height;
+
+  const applyPreset = (name: string) => {
+    const selected = PAGE_PRESETS.find(p => p.name === name);
+    if (!selected) return;
+    const width = toPx(selected.width, selected.unit);
+    const height = toPx(selected.height, selected.unit);
+    onChange(landscape ? { width: height, height: width } : { width, height });
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-700 text-white px-4 py-1 flex items-center space-x-3 text-sm">
+      <select
+        value={preset?.name ?? 'custom'}
+        onChange={(e) => applyPreset(e.target.value)}
+        className="px-1 py-0.5 rounded text-gray-900"
+        title="Page size"
+      >
+        {PAGE_PRESETS.map(p => (
+          <option key={p.name} value={p.name}>{p.name}</option>
+        ))}
+        <option value="custom" disabled>Custom</option>
+      </select>
+      <button
+        onClick={() => onChange({ width: artboard.height, height: artboard.width })}
+        className="bg-gray-600 hover:bg-gray-500 px-2 py-0.5 rounded"
+        title="Swap orientation"
+      >
+        {landscape ? 'Landscape' : 'Portrait'}
+      </button>
+      <UnitInput label="W" value={artboard.width} unit={unit} min={toPx(10, 'mm')} onChange={(width) => onChange({ width })} />
+      <UnitInput label="H" value={artboard.height} unit={unit} min={toPx(10, 'mm')} onChange={(height) => onChange({ height })} />
+      <span className="text-gray-500">|</span>
+      <UnitInput label="Margin" value={artboard.margin} unit={unit} min={0} onChange={(margin) => onChange({ margin })} />
+      <UnitInput label="Safe" value={artboard.safeArea} unit={unit} min={0} onChange={(safeArea) => onChange({ safeArea })} />
+      <UnitInput label="Bleed" value={artboard.bleed} unit={unit} min={0} onChange={(bleed) => onChange({ bleed })} />
+      <span className="text-gray-500">|</span>
+      <select
+        value={unit}
+        onChange={(e) => onUnitChange(e.target.value as Unit)}
+        className="px-1 py-0.5 rounded text-gray-900"
+        title="Units"
+      >
+        {UNITS.map(u => (
+          <option key={u} value={u}>{u}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Group, Image as KonvaImage, Rect, Transformer } from 'react-konva';
+import Konva from 'konva';
+import useImage from 'use-image';
+import { CanvasImage } from '@/lib/types';
+import { Bounds } from '@/lib/geometry';
+import { MIN_CROP_SIZE, clampCropFrame, fitCropAspect } from '@/lib/crop';
+
+interface CropOverlayProps {
+  image: CanvasImage;
+  // Full image extent and crop frame, both in the image's local layout units
+  uncropped: Bounds;
+  frame: Bounds;
+  // Width/height ratio the frame is locked to, if any
+  aspect: number | null;
+  onChange: (frame: Bounds) => void;
+}
+
+// Crop editor drawn in the image's own rotated space: the whole image is shown
+// dimmed so the crop can be widened again, with the kept area at full strength
+export default function CropOverlay({ image, uncropped, frame, aspect, onChange }: CropOverlayProps) {
+  const [img] = useImage(image.src);
+  const frameRef = useRef<Konva.Rect>(null);
+  const trRef = useRef<Konva.Transformer>(null);
+
+  useEffect(() => {
+    if (trRef.current && frameRef.current) {
+      trRef.current.nodes([frameRef.current]);
+      trRef.current.getLayer()?.batchDraw();
+    }
+  }, []);
+
+  const commit = (next: Bounds) => {
+    const clamped = clampCropFrame(next, uncropped);
+    onChange(aspect ? clampCropFrame(fitCropAspect(clamped, aspect), uncropped) : clamped);
+  };
+
+  // The transformer lives outside the rotated group; it follows the frame's absolute transform
+  return (
+    <>
+      <Group x={image.x} y={image.y} rotation={image.rotation} scaleX={image.scaleX} scaleY={image.scaleY}>
+        <KonvaImage image={img} {...uncropped} opacity={0.35} listening={false} />
+        <Group clipX={frame.x} clipY={frame.y} clipWidth={frame.width} clipHeight={frame.height} listening={false}>
+          <KonvaImage image={img} {...uncropped} />
+        </Group>
+        <Rect
+          ref={frameRef}
+          {...frame}
+          stroke="red"
+          strokeWidth={2}
+          strokeScaleEnabled={false}
+          dash={[5, 5]}
+          draggable
+          onDragMove={(e) => {
+            // Keep the frame over the image while dragging
+            const clamped = clampCropFrame({ ...frame, x: e.target.x(), y: e.target.y() }, uncropped);
+            e.target.position({ x: clamped.x, y: clamped.y });
+          }}
+          onDragEnd={(e) => commit({ ...frame, x: e.target.x(), y: e.target.y() })}
+          onTransformEnd={(e) => {
+            const node = e.target;
+            const next = {
+              x: node.x(),
+              y: node.y(),
+              width: node.width() * node.scaleX(),
+              height: node.height() * node.scaleY(),
+            };
+            node.scaleX(1);
+            node.scaleY(1);
+            commit(next);
+          }}
+        />
+      </Group>
+      <Transformer
+        ref={trRef}
+        rotateEnabled={false}
+        flipEnabled={false}
+        keepRatio={aspect !== null}
+        enabledAnchors={aspect !== null
+          ? ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+          : undefined}
+        boundBoxFunc={(oldBox, newBox) => {
+          if (Math.abs(newBox.width) < MIN_CROP_SIZE || Math.abs(newBox.height) < MIN_CROP_SIZE) {
+            return oldBox;
+          }
+          return newBox;
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import React from 'react';
+import { Guide } from '@/lib/types';
+import { Unit } from '@/lib/units';
+import UnitInput from '@/components/UnitInput';
+
+interface GuidesPanelProps {
+  guides: Guide[];
+  unit: Unit;
+  onAdd: (axis: Guide['axis']) => void;
+  onChange: (guides: Guide[], label: string) => void;
+  onClose: () => void;
+}
+
+// Ruler guides of the current page with exact positions, floating with the zoom controls
+export default function GuidesPanel({ guides, unit, onAdd, onChange, onClose }: GuidesPanelProps) {
+  const allLocked = guides.length > 0 && guides.every(guide => guide.locked);
+
+  const updateGuide = (id: string, changes: Partial<Guide>, label: string) =>
+    onChange(guides.map(guide => guide.id === id ? { ...guide, ...changes } : guide), label);
+
+  return (
+    <div className="w-56 max-h-80 flex flex-col bg-gray-700 bg-opacity-90 rounded p-1 text-white text-xs">
+      <div className="flex items-center justify-between px-1 pb-1">
+        <span className="font-semibold">Guides</span>
+        <button onClick={onClose} className="text-gray-300 hover:text-white" title="Close">✕</button>
+      </div>
+      <div className="overflow-y-auto space-y-1">
+        {guides.length === 0 && (
+          <p className="px-1 text-gray-300">Drag from a ruler or add one below.</p>
+        )}
+        {guides.map(guide => (
+          <div key={guide.id} className="flex items-center space-x-1 px-1">
+            <UnitInput
+              label={guide.axis === 'x' ? '↔' : '↕'}
+              value={guide.position}
+              unit={unit}
+              onChange={(position) => updateGuide(guide.id, { position }, 'Move guide')}
+            />
+            <button
+              onClick={() => updateGuide(guide.id, { locked: !guide.locked }, guide.locked ? 'Unlock guide' : 'Lock guide')}
+              className="px-1 rounded hover:bg-gray-600"
+              title={guide.locked ? 'Unlock' : 'Lock'}
+            >
+              {guide.locked ? '🔒' : '🔓'}
+            </button>
+            <button
+              onClick={() => onChange(guides.filter(other => other.id !== guide.id), 'Delete guide')}
+              className="px-1 rounded hover:bg-gray-600"
+              title="Delete guide"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1 pt-1">
+        <button onClick={() => onAdd('y')} className="px-2 py-1 rounded hover:bg-gray-600" title="Add horizontal guide">+ ─</button>
+        <button onClick={() => onAdd('x')} className="px-2 py-1 rounded hover:bg-gray-600" title="Add vertical guide">+ │</button>
+        <button
+          onClick={() => onChange(guides.map(guide => ({ ...guide, locked: !allLocked })), allLocked ? 'Unlock guides' : 'Lock guides')}
+          className="px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+          disabled={guides.length === 0}
+        >
+          {allLocked ? 'Unlock all' : 'Lock all'}
+        </button>
+        <button
+          onClick={() => onChange([], 'Clear guides')}
+          className="px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+          disabled={guides.length === 0}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { HistoryState } from '@/lib/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: (steps: number) => void;
+  onRedo: (steps: number) => void;
+  onClose: () => void;
+}
+
+// Lists undoable steps oldest first; clicking an entry jumps to the state right after it
+export default function HistoryPanel({ history, onUndo, onRedo, onClose }: HistoryPanelProps) {
+  const { past, future } = history;
+
+  return (
+    <div className="absolute left-6 z-20 w-56 max-h-80 flex flex-col bg-white rounded shadow-lg text-sm" style={{ top: 28 }}>
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <span className="font-semibold text-gray-700">History</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">✕</button>
+      </div>
+      <div className="overflow-y-auto">
+        <button
+          onClick={() => onUndo(past.length)}
+          className={`block w-full text-left px-3 py-1 hover:bg-gray-100 ${past.length === 0 ? 'bg-blue-50 font-medium' : 'text-gray-600'}`}
+        >
+          Initial state
+        </button>
+        {past.map((command, index) => (
+          <button
+            key={`past-${index}`}
+            onClick={() => onUndo(past.length - 1 - index)}
+            className={`block w-full text-left px-3 py-1 hover:bg-gray-100 ${
+              index === past.length - 1 ? 'bg-blue-50 font-medium' : 'text-gray-700'
+            }`}
+          >
+            {command.label}
+          </button>
+        ))}
+        {[...future].reverse().map((command, index) => (
+          <button
+            key={`future-${index}`}
+            onClick={() => onRedo(index + 1)}
+            className="block w-full text-left px-3 py-1 hover:bg-gray-100 text-gray-400 italic"
+          >
+            {command.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
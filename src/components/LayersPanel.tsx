@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useState } from 'react';
+import NextImage from 'next/image';
+import { CanvasObject } from '@/lib/types';
+import { SHAPE_TOOLS } from '@/lib/shapes';
+import { FREEHAND_TOOLS } from '@/lib/freehand';
+import { objectDisplayName } from '@/lib/layers';
+
+interface LayersPanelProps {
+  objects: CanvasObject[];
+  selectedIds: string[];
+  onSelect: (id: string, additive: boolean) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onBringToFront: () => void;
+  onSendToBack: () => void;
+  onToggleLocked: (id: string) => void;
+  onToggleHidden: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const Thumbnail = ({ object }: { object: CanvasObject }) => {
+  if (object.type === 'image') {
+    return (
+      <NextImage src={object.src} alt="" width={32} height={32} className="w-8 h-8 object-contain bg-gray-100 rounded" />
+    );
+  }
+  const icon = object.type === 'text'
+    ? 'T'
+    : object.type === 'shape'
+      ? SHAPE_TOOLS.find(tool => tool.value === object.kind)?.icon
+      : object.type === 'line'
+        ? '╱'
+        : object.type === 'group'
+          ? '▣'
+          : FREEHAND_TOOLS.find(tool => tool.value === object.tool)?.icon;
+  return <span className="w-8 h-8 flex items-center justify-center bg-gray-100 rounded text-gray-600">{icon}</span>;
+};
+
+// Objects of the current page, frontmost first. Indexes passed to `onMove` are
+// positions in the page's object list, which runs bottom to top.
+export default function LayersPanel({
+  objects,
+  selectedIds,
+  onSelect,
+  onMove,
+  onBringToFront,
+  onSendToBack,
+  onToggleLocked,
+  onToggleHidden,
+  onRename,
+  onClose,
+}: LayersPanelProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  const finishRename = (object: CanvasObject, value: string) => {
+    const name = value.trim();
+    if (name && name !== objectDisplayName(object)) onRename(object.id, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="w-56 max-h-80 flex flex-col bg-white rounded shadow-lg text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <span className="font-semibold text-gray-700">Layers</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">✕</button>
+      </div>
+      <div className="flex space-x-1 px-2 py-1 border-b border-gray-200">
+        <button
+          onClick={onBringToFront}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded text-xs disabled:opacity-50"
+          disabled={selectedIds.length === 0}
+        >
+          Bring to Front
+        </button>
+        <button
+          onClick={onSendToBack}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded text-xs disabled:opacity-50"
+          disabled={selectedIds.length === 0}
+        >
+          Send to Back
+        </button>
+      </div>
+      <div className="overflow-y-auto">
+        {objects.length === 0 && (
+          <p className="px-3 py-2 text-gray-400 italic">No objects on this page</p>
+        )}
+        {[...objects].reverse().map((object, displayIndex) => {
+          const index = objects.length - 1 - displayIndex;
+          const selected = selectedIds.includes(object.id);
+          return (
+            <div
+              key={object.id}
+              draggable={renamingId !== object.id}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null && dragIndex !== index) onMove(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              onClick={(e) => onSelect(object.id, e.shiftKey)}
+              className={`flex items-center space-x-2 px-2 py-1 cursor-pointer select-none ${
+                selected ? 'bg-blue-50' : 'hover:bg-gray-100'
+              } ${dragIndex === index ? 'opacity-50' : ''} ${object.hidden ? 'text-gray-400' : 'text-gray-700'}`}
+              title="Drag to reorder, double-click to rename"
+            >
+              <Thumbnail object={object} />
+              {renamingId === object.id ? (
+                <input
+                  autoFocus
+                  defaultValue={objectDisplayName(object)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={(e) => finishRename(object, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename(object, e.currentTarget.value);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-1 min-w-0 px-1 border border-gray-300 rounded"
+                />
+              ) : (
+                <span className="flex-1 truncate" onDoubleClick={() => setRenamingId(object.id)}>
+                  {objectDisplayName(object)}
+                </span>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleLocked(object.id);
+                }}
+                className={object.locked ? 'text-gray-700' : 'text-gray-300 hover:text-gray-500'}
+                title={object.locked ? 'Unlock' : 'Lock'}
+              >
+                {object.locked ? '🔒' : '🔓'}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleHidden(object.id);
+                }}
+                className={object.hidden ? 'text-gray-300 hover:text-gray-500' : 'text-gray-700'}
+                title={object.hidden ? 'Show' : 'Hide'}
+              >
+                {object.hidden ? '◌' : '●'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
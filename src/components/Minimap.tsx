@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Bounds, unionBounds } from '@/lib/geometry';
+import { ViewState, getVisibleRect } from '@/lib/viewport';
+
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+const MINIMAP_PADDING = 6;
+
+interface MinimapProps {
+  // Artboard including bleed
+  artboard: Bounds;
+  objects: Bounds[];
+  view: ViewState;
+  viewportWidth: number;
+  viewportHeight: number;
+  // Called with the layout point that should move to the middle of the viewport
+  onNavigate: (point: { x: number; y: number }) => void;
+}
+
+export default function Minimap({ artboard, objects, view, viewportWidth, viewportHeight, onNavigate }: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const draggingRef = useRef(false);
+
+  const visible = getVisibleRect(view, viewportWidth, viewportHeight);
+  const world = unionBounds([artboard, visible, ...objects]) ?? artboard;
+  const scale = Math.min(
+    (MINIMAP_WIDTH - MINIMAP_PADDING * 2) / world.width,
+    (MINIMAP_HEIGHT - MINIMAP_PADDING * 2) / world.height
+  );
+  const offsetX = (MINIMAP_WIDTH - world.width * scale) / 2 - world.x * scale;
+  const offsetY = (MINIMAP_HEIGHT - world.height * scale) / 2 - world.y * scale;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = MINIMAP_WIDTH * ratio;
+    canvas.height = MINIMAP_HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+
+    const toMap = (b: Bounds): [number, number, number, number] => [
+      offsetX + b.x * scale,
+      offsetY + b.y * scale,
+      b.width * scale,
+      b.height * scale,
+    ];
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(...toMap(artboard));
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.5)';
+    objects.forEach(object => ctx.fillRect(...toMap(object)));
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(...toMap(visible));
+  }, [artboard, objects, visible, offsetX, offsetY, scale]);
+
+  const navigate = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: (e.clientX - rect.left - offsetX) / scale,
+      y: (e.clientY - rect.top - offsetY) / scale,
+    });
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT }}
+      className="bg-gray-700 bg-opacity-90 rounded shadow-lg cursor-pointer"
+      onPointerDown={(e) => {
+        draggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (draggingRef.current) navigate(e);
+      }}
+      onPointerUp={() => {
+        draggingRef.current = false;
+      }}
+    />
+  );
+}
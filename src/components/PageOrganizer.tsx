@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import NextImage from 'next/image';
+import { PageInfo, SourceDocument } from '@/lib/types';
+import { OrganizerPage, createOrganizerPage, rotateOrganizerPage } from '@/lib/pageOrganizer';
+import { pageKey } from '@/lib/pageRenderer';
+
+// A PDF merged in the organizer. It is only used for the download and is
+// dropped when the organizer closes.
+export interface MergedDocument {
+  source: SourceDocument;
+  pages: PageInfo[];
+  thumbnails: Record<string, string>;
+}
+
+interface PageOrganizerProps {
+  // Pages of every uploaded PDF, in their original order
+  pages: PageInfo[];
+  // Page previews by pageKey; missing ones are still rendering
+  thumbnails: Record<string, string>;
+  sourceNames: Record<string, string>;
+  // Reads another PDF without adding it to the library
+  onMergePdf: (file: File) => Promise<MergedDocument>;
+  onDownload: (pages: OrganizerPage[], mergedSources: Record<string, SourceDocument>) => Promise<void>;
+  onClose: () => void;
+}
+
+// Reorders, rotates, deletes and inserts pages, then writes them out as a new PDF.
+// Starts with every loaded page in its original order.
+export default function PageOrganizer({ pages, thumbnails, sourceNames, onMergePdf, onDownload, onClose }: PageOrganizerProps) {
+  const [entries, setEntries] = useState<OrganizerPage[]>(() => pages.map(page => createOrganizerPage(page)));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [merged, setMerged] = useState<MergedDocument[]>([]);
+  const mergeInputRef = useRef<HTMLInputElement>(null);
+
+  const moveEntry = (fromIndex: number, toIndex: number) => {
+    setEntries(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  const updateEntry = (id: string, update: (entry: OrganizerPage) => OrganizerPage) => {
+    setEntries(prev => prev.map(entry => entry.id === id ? update(entry) : entry));
+  };
+
+  const insertBlankPage = (index: number) => {
+    setEntries(prev => [...prev.slice(0, index), createOrganizerPage(null), ...prev.slice(index)]);
+  };
+
+  const mergePdf = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    try {
+      const mergedDocument = await onMergePdf(file);
+      setMerged(prev => [...prev, mergedDocument]);
+      setEntries(prev => [...prev, ...mergedDocument.pages.map(page => createOrganizerPage(page))]);
+    } catch (error) {
+      console.error('Error merging PDF:', error);
+      alert('Could not read the PDF');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const download = async () => {
+    setBusy(true);
+    try {
+      await onDownload(entries, Object.fromEntries(merged.map(({ source }) => [source.id, source])));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const allThumbnails: Record<string, string> = Object.assign({}, thumbnails, ...merged.map(mergedDocument => mergedDocument.thumbnails));
+  const allNames = {
+    ...sourceNames,
+    ...Object.fromEntries(merged.map(({ source }) => [source.id, source.name])),
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-6xl w-full max-h-3/4 overflow-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Organize Pages</h2>
+          <div className="flex space-x-2">
+            <button
+              onClick={onClose}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded text-sm"
+            >
+              Close
+            </button>
+            <button
+              onClick={() => insertBlankPage(entries.length)}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded text-sm"
+            >
+              Add Blank Page
+            </button>
+            <button
+              onClick={() => mergeInputRef.current?.click()}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded text-sm disabled:opacity-50"
+              disabled={busy}
+              title="Adds its pages to the download only; the PDF is not added to the library"
+            >
+              Merge PDF…
+            </button>
+            <input ref={mergeInputRef} type="file" accept="application/pdf" onChange={mergePdf} className="hidden" />
+            <button
+              onClick={download}
+              className="bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded text-sm disabled:opacity-50"
+              disabled={busy || entries.length === 0}
+            >
+              {busy ? 'Working…' : `Download PDF (${entries.length})`}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-5 gap-4 max-h-96 overflow-y-auto">
+          {entries.map((entry, index) => {
+            const thumbnail = entry.source && allThumbnails[pageKey(entry.source)];
+            return (
+              <div
+                key={entry.id}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null && dragIndex !== index) moveEntry(dragIndex, index);
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                className={`border-2 border-gray-300 rounded-lg p-2 cursor-move select-none ${
+                  dragIndex === index ? 'opacity-50' : ''
+                }`}
+                title="Drag to reorder"
+              >
+                <div className="h-40 flex items-center justify-center overflow-hidden">
+                  {thumbnail ? (
+                    <NextImage
+                      src={thumbnail}
+                      alt={`Page ${entry.source!.pageNumber}`}
+                      width={120}
+                      height={150}
+                      className="max-h-32 w-auto rounded shadow transition-transform"
+                      style={{ transform: `rotate(${entry.rotation}deg)` }}
+                    />
+                  ) : (
+                    <div
+                      className="w-24 h-32 bg-white border border-gray-300 rounded shadow transition-transform"
+                      style={{ transform: `rotate(${entry.rotation}deg)` }}
+                    />
+                  )}
+                </div>
+                <p className="text-center mt-1 text-sm truncate">
+                  {index + 1}. {entry.source
+                    ? `${allNames[entry.source.documentId] ?? 'PDF'} p. ${entry.source.pageNumber}`
+                    : 'Blank page'}
+                </p>
+                <div className="flex justify-center space-x-1 mt-1 text-sm">
+                  <button
+                    onClick={() => updateEntry(entry.id, page => rotateOrganizerPage(page, -90))}
+                    className="px-2 rounded hover:bg-gray-200"
+                    title="Rotate left"
+                  >
+                    ⟲
+                  </button>
+                  <button
+                    onClick={() => updateEntry(entry.id, page => rotateOrganizerPage(page, 90))}
+                    className="px-2 rounded hover:bg-gray-200"
+                    title="Rotate right"
+                  >
+                    ⟳
+                  </button>
+                  <button
+                    onClick={() => insertBlankPage(index + 1)}
+                    className="px-2 rounded hover:bg-gray-200"
+                    title="Insert blank page after"
+                  >
+                    ＋
+                  </button>
+                  <button
+                    onClick={() => setEntries(prev => prev.filter(other => other.id !== entry.id))}
+                    className="px-2 rounded hover:bg-gray-200 text-red-600"
+                    title="Delete page"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-4 text-sm text-gray-600">
+          {entries.length} pages · Drag thumbnails to change the order. Changes only affect the downloaded PDF.
+        </div>
+      </div>
+    </div>
+  );
+}
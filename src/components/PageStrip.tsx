@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Artboard } from '@/lib/types';
+
+interface PageStripProps {
+  artboards: Artboard[];
+  activeArtboardId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+}
+
+export default function PageStrip({
+  artboards,
+  activeArtboardId,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onMove,
+}: PageStripProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const activeArtboard = artboards.find(artboard => artboard.id === activeArtboardId);
+
+  return (
+    <div className="flex-shrink-0 bg-gray-800 text-white px-4 py-2 flex items-center space-x-3">
+      <div className="flex space-x-2 overflow-x-auto flex-1">
+        {artboards.map((artboard, index) => (
+          <div
+            key={artboard.id}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) onMove(dragIndex, index);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            onClick={() => onSelect(artboard.id)}
+            className={`flex-shrink-0 px-3 py-1 rounded text-sm cursor-pointer select-none ${
+              artboard.id === activeArtboardId
+                ? 'bg-blue-500'
+                : 'bg-gray-600 hover:bg-gray-500'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+            title="Drag to reorder"
+          >
+            {artboard.name}
+            <span className="ml-2 text-xs text-gray-300">{artboard.objects.length}</span>
+          </div>
+        ))}
+        <button
+          onClick={onAdd}
+          className="flex-shrink-0 bg-green-500 hover:bg-green-600 px-3 py-1 rounded text-sm"
+        >
+          + Page
+        </button>
+      </div>
+
+      {activeArtboard && (
+        <div className="flex items-center space-x-2 text-sm">
+          <button
+            onClick={() => onDuplicate(activeArtboard.id)}
+            className="bg-gray-600 hover:bg-gray-500 px-3 py-1 rounded"
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={() => onDelete(activeArtboard.id)}
+            className="bg-red-500 hover:bg-red-600 px-3 py-1 rounded disabled:opacity-50"
+            disabled={artboards.length <= 1}
+          >
+            Delete Page
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import React from 'react';
+
+interface RenderProgressProps {
+  label: string;
+  done: number;
+  total: number;
+  onCancel: () => void;
+}
+
+// Progress of background page rendering, shown in the page and image pickers
+export default function RenderProgress({ label, done, total, onCancel }: RenderProgressProps) {
+  return (
+    <div className="flex items-center space-x-2 text-sm text-gray-600">
+      <span>{label} {done} / {total}</span>
+      <div className="w-32 h-2 bg-gray-200 rounded overflow-hidden">
+        <div className="h-full bg-blue-500" style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }} />
+      </div>
+      <button onClick={onCancel} className="text-gray-500 hover:text-gray-800 underline">
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Unit, fromPx, toPx } from '@/lib/units';
+
+export const RULER_SIZE = 20;
+
+// Minimum on-screen distance between labelled ticks
+const MIN_MAJOR_SPACING = 50;
+const STEPS: Record<Unit, number[]> = {
+  mm: [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000],
+  in: [0.125, 0.25, 0.5, 1, 2, 5, 10, 20, 50],
+  px: [5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000],
+};
+
+interface RulersProps {
+  width: number;
+  height: number;
+  // Screen position of the artboard origin inside the canvas area
+  originX: number;
+  originY: number;
+  // Screen pixels per layout pixel
+  scale: number;
+  unit: Unit;
+  // Dragging out of a ruler places a guide: the top ruler makes horizontal
+  // guides (axis 'y'), the left one vertical guides (axis 'x'). `position` is in
+  // layout pixels, or null while the pointer is still over the ruler.
+  onGuideDrag: (axis: 'x' | 'y', position: number | null) => void;
+  onGuideDrop: (axis: 'x' | 'y', position: number | null) => void;
+}
+
+const drawRuler = (
+  canvas: HTMLCanvasElement,
+  length: number,
+  origin: number,
+  scale: number,
+  unit: Unit,
+  vertical: boolean
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const ratio = window.devicePixelRatio || 1;
+  const canvasWidth = vertical ? RULER_SIZE : length;
+  const canvasHeight = vertical ? length : RULER_SIZE;
+  canvas.width = canvasWidth * ratio;
+  canvas.height = canvasHeight * ratio;
+  canvas.style.width = `${canvasWidth}px`;
+  canvas.style.height = `${canvasHeight}px`;
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+  ctx.fillStyle = '#f3f4f6';
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  ctx.strokeStyle = '#6b7280';
+  ctx.fillStyle = '#374151';
+  ctx.font = '9px sans-serif';
+  ctx.lineWidth = 1;
+
+  const screenPerUnit = toPx(1, unit) * scale;
+  const major = STEPS[unit].find(step => step * screenPerUnit >= MIN_MAJOR_SPACING) ?? STEPS[unit][STEPS[unit].length - 1];
+  const minor = major / (major * screenPerUnit >= 100 ? 10 : 5);
+
+  // Visible range in units
+  const start = fromPx(-origin / scale, unit);
+  const end = fromPx((length - origin) / scale, unit);
+  const firstTick = Math.floor(start / minor);
+  const lastTick = Math.ceil(end / minor);
+
+  ctx.beginPath();
+  for (let tick = firstTick; tick <= lastTick; tick++) {
+    const value = tick * minor;
+    const position = Math.round(origin + toPx(value, unit) * scale) + 0.5;
+    const isMajor = Math.abs(value / major - Math.round(value / major)) < 1e-6;
+    const tickLength = isMajor ? RULER_SIZE : RULER_SIZE / 3;
+
+    if (vertical) {
+      ctx.moveTo(RULER_SIZE - tickLength, position);
+      ctx.lineTo(RULER_SIZE, position);
+    } else {
+      ctx.moveTo(position, RULER_SIZE - tickLength);
+      ctx.lineTo(position, RULER_SIZE);
+    }
+
+    if (isMajor) {
+      const label = `${Number(value.toFixed(3))}`;
+      if (vertical) {
+        ctx.save();
+        ctx.translate(9, position + 2);
+        ctx.rotate(-Math.PI / 2);
+        ctx.fillText(label, 0, 0);
+        ctx.restore();
+      } else {
+        ctx.fillText(label, position + 2, 9);
+      }
+    }
+  }
+  ctx.stroke();
+};
+
+export default function Rulers({ width, height, originX, originY, scale, unit, onGuideDrag, onGuideDrop }: RulersProps) {
+  const topRef = useRef<HTMLCanvasElement>(null);
+  const leftRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (topRef.current) drawRuler(topRef.current, width, originX, scale, unit, false);
+    if (leftRef.current) drawRuler(leftRef.current, height, originY, scale, unit, true);
+  }, [width, height, originX, originY, scale, unit]);
+
+  // Both rulers start at the canvas area's corner, so offsets from either
+  // canvas are canvas area coordinates
+  const guidePosition = (axis: 'x' | 'y', event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const offset = axis === 'x' ? event.clientX - rect.left : event.clientY - rect.top;
+    if (offset < RULER_SIZE) return null;
+    return (offset - (axis === 'x' ? originX : originY)) / scale;
+  };
+
+  // Pointer capture keeps the drag going once the pointer leaves the ruler
+  const guideHandlers = (axis: 'x' | 'y') => ({
+    onPointerDown: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      onGuideDrag(axis, null);
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) onGuideDrag(axis, guidePosition(axis, e));
+    },
+    onPointerUp: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+      onGuideDrop(axis, guidePosition(axis, e));
+    },
+    onPointerCancel: () => onGuideDrop(axis, null),
+  });
+
+  return (
+    <>
+      <canvas ref={topRef} className="absolute top-0 left-0 z-10 cursor-row-resize" {...guideHandlers('y')} />
+      <canvas ref={leftRef} className="absolute top-0 left-0 z-10 cursor-col-resize" {...guideHandlers('x')} />
+      <div
+        className="absolute top-0 left-0 z-20 bg-gray-200 text-[9px] text-gray-600 flex items-center justify-center"
+        style={{ width: RULER_SIZE, height: RULER_SIZE }}
+      >
+        {unit}
+      </div>
+    </>
+  );
+}
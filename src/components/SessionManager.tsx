@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SessionInfo } from '@/lib/sessionStore';
+
+interface SessionManagerProps {
+  sessions: SessionInfo[];
+  currentSessionId: string;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export default function SessionManager({ sessions, currentSessionId, onOpen, onRename, onDelete, onClose }: SessionManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: SessionInfo) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    const session = sessions.find(s => s.id === editingId);
+    const name = draftName.trim();
+    if (session && name && name !== session.name) {
+      onRename(session.id, name);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-3/4 overflow-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Saved Sessions</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-2 rounded text-sm"
+          >
+            Close
+          </button>
+        </div>
+        {sessions.length === 0 ? (
+          <p className="text-gray-600">No sessions have been saved yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between py-2 space-x-4">
+                <div className="flex-1 min-w-0">
+                  {editingId === session.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                  ) : (
+                    <div className="font-medium text-gray-800 truncate">
+                      {session.name}
+                      {session.id === currentSessionId && (
+                        <span className="ml-2 text-xs text-blue-600">(current)</span>
+                      )}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {new Date(session.updatedAt).toLocaleString()} · {session.pageCount} pages · {session.objectCount} objects
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => onOpen(session.id)}
+                    disabled={session.id === currentSessionId}
+                    className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => startRename(session)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-1 rounded text-sm"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    disabled={session.id === currentSessionId}
+                    className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
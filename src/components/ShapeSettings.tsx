@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import { CanvasFreehand, CanvasLine, CanvasShape, DashStyle } from '@/lib/types';
+import { DASH_STYLES } from '@/lib/shapes';
+
+type ShapeStyle = Partial<Pick<CanvasShape, 'stroke' | 'strokeWidth' | 'dash' | 'opacity' | 'fill'>>
+  & Partial<Pick<CanvasLine, 'arrowStart' | 'arrowEnd'>>;
+
+interface ShapeSettingsProps {
+  object: CanvasShape | CanvasLine | CanvasFreehand;
+  onChange: (style: ShapeStyle) => void;
+}
+
+// Stroke, fill and arrowhead controls for the selected shape, line or ink stroke
+export default function ShapeSettings({ object, onChange }: ShapeSettingsProps) {
+  const commitNumber = (key: 'strokeWidth' | 'opacity', raw: string, min: number, max: number, factor = 1) => {
+    const parsed = parseFloat(raw) / factor;
+    if (Number.isFinite(parsed) && parsed >= min && parsed <= max && parsed !== object[key]) {
+      onChange({ [key]: parsed });
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-700 text-white px-4 py-1 flex items-center space-x-3 text-sm border-t border-gray-600">
+      <span className="text-gray-300">
+        {object.type === 'line' ? 'Line' : object.type === 'freehand' ? 'Ink' : 'Shape'}
+      </span>
+      <label className="flex items-center space-x-1">
+        <span className="text-gray-300">Stroke</span>
+        <input
+          type="color"
+          value={object.stroke}
+          onChange={(e) => onChange({ stroke: e.target.value })}
+          className="w-8 h-6 rounded"
+        />
+      </label>
+      <label className="flex items-center space-x-1">
+        <span className="text-gray-300">Width</span>
+        <input
+          type="number"
+          min={0}
+          defaultValue={object.strokeWidth}
+          key={`width-${object.id}-${object.strokeWidth}`}
+          onBlur={(e) => commitNumber('strokeWidth', e.target.value, 0, 100)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitNumber('strokeWidth', e.currentTarget.value, 0, 100);
+          }}
+          className="w-14 px-1 py-0.5 rounded text-gray-900"
+        />
+      </label>
+      {object.type !== 'freehand' && (
+        <select
+          value={object.dash}
+          onChange={(e) => onChange({ dash: e.target.value as DashStyle })}
+          className="px-1 py-0.5 rounded text-gray-900"
+          title="Dash"
+        >
+          {DASH_STYLES.map(dash => (
+            <option key={dash} value={dash}>{dash}</option>
+          ))}
+        </select>
+      )}
+      {object.type === 'shape' && (
+        <label className="flex items-center space-x-1">
+          <span className="text-gray-300">Fill</span>
+          <input
+            type="checkbox"
+            checked={object.fill !== null}
+            onChange={(e) => onChange({ fill: e.target.checked ? '#ffffff' : null })}
+          />
+          {object.fill !== null && (
+            <input
+              type="color"
+              value={object.fill}
+              onChange={(e) => onChange({ fill: e.target.value })}
+              className="w-8 h-6 rounded"
+            />
+          )}
+        </label>
+      )}
+      {object.type === 'line' && (
+        <>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={object.arrowStart}
+              onChange={(e) => onChange({ arrowStart: e.target.checked })}
+            />
+            <span className="text-gray-300">Start arrow</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={object.arrowEnd}
+              onChange={(e) => onChange({ arrowEnd: e.target.checked })}
+            />
+            <span className="text-gray-300">End arrow</span>
+          </label>
+        </>
+      )}
+      <label className="flex items-center space-x-1">
+        <span className="text-gray-300">Opacity %</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          defaultValue={Math.round(object.opacity * 100)}
+          key={`opacity-${object.id}-${object.opacity}`}
+          onBlur={(e) => commitNumber('opacity', e.target.value, 0, 1, 100)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitNumber('opacity', e.currentTarget.value, 0, 1, 100);
+          }}
+          className="w-14 px-1 py-0.5 rounded text-gray-900"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+
+export interface LibraryDocument {
+  id: string;
+  name: string;
+  pageCount: number;
+  imageCount: number;
+  // Objects on the canvas that were placed from this document
+  placedCount: number;
+}
+
+interface SourceLibraryProps {
+  documents: LibraryDocument[];
+  onAdd: () => void;
+  onShowPages: (documentId: string) => void;
+  onRemove: (documentId: string) => void;
+  onClose: () => void;
+}
+
+// The PDFs loaded into this session, in upload order
+export default function SourceLibrary({ documents, onAdd, onShowPages, onRemove, onClose }: SourceLibraryProps) {
+  return (
+    <div className="w-56 max-h-80 flex flex-col bg-white rounded shadow-lg text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <span className="font-semibold text-gray-700">Source PDFs</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">✕</button>
+      </div>
+      <div className="px-2 py-1 border-b border-gray-200">
+        <button
+          onClick={onAdd}
+          className="w-full bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded text-xs"
+        >
+          Add PDFs…
+        </button>
+      </div>
+      <div className="overflow-y-auto">
+        {documents.length === 0 && (
+          <p className="px-3 py-2 text-gray-400 italic">No PDFs loaded</p>
+        )}
+        {documents.map(document => (
+          <div key={document.id} className="flex items-center space-x-2 px-2 py-1 hover:bg-gray-100">
+            <button
+              onClick={() => onShowPages(document.id)}
+              className="flex-1 min-w-0 text-left"
+              title="Show pages"
+            >
+              <span className="block truncate text-gray-700">{document.name}</span>
+              <span className="block text-xs text-gray-500">
+                {document.pageCount} pages · {document.imageCount} images
+                {document.placedCount > 0 && ` · ${document.placedCount} placed`}
+              </span>
+            </button>
+            <button
+              onClick={() => onRemove(document.id)}
+              className="text-gray-400 hover:text-red-600"
+              title="Remove from library"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
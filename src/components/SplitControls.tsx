@@ -0,0 +1,74 @@
+'use client';
+
+import React, { useState } from 'react';
+
+interface SplitControlsProps {
+  selectedCount: number;
+  // Page boundaries marked with ✂ in the page grid
+  boundaryCount: number;
+  busy: boolean;
+  onExtractSelected: () => void;
+  onSplitEvery: (pageCount: number) => void;
+  onSplitAtBoundaries: () => void;
+  onSplitByBookmarks: () => void;
+}
+
+// Split actions shown under the page grid of the selection modal. Several
+// resulting PDFs are downloaded together as a ZIP.
+export default function SplitControls({
+  selectedCount,
+  boundaryCount,
+  busy,
+  onExtractSelected,
+  onSplitEvery,
+  onSplitAtBoundaries,
+  onSplitByBookmarks,
+}: SplitControlsProps) {
+  const [everyCount, setEveryCount] = useState<number>(1);
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-2 border-t border-gray-200 pt-4 text-sm">
+      <span className="font-semibold text-gray-700">Split PDF:</span>
+      <button
+        onClick={onExtractSelected}
+        className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded disabled:opacity-50"
+        disabled={busy || selectedCount === 0}
+      >
+        Extract Selected ({selectedCount})
+      </button>
+      <div className="flex items-center space-x-1">
+        <span className="text-gray-600">Every</span>
+        <input
+          type="number"
+          min={1}
+          value={everyCount}
+          onChange={(e) => setEveryCount(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          className="w-14 px-1 py-1 border border-gray-300 rounded"
+        />
+        <button
+          onClick={() => onSplitEvery(everyCount)}
+          className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded disabled:opacity-50"
+          disabled={busy}
+        >
+          Pages
+        </button>
+      </div>
+      <button
+        onClick={onSplitAtBoundaries}
+        className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded disabled:opacity-50"
+        disabled={busy || boundaryCount === 0}
+        title="Mark boundaries with ✂ on the pages above"
+      >
+        At ✂ Marks ({boundaryCount})
+      </button>
+      <button
+        onClick={onSplitByBookmarks}
+        className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded disabled:opacity-50"
+        disabled={busy}
+      >
+        By Bookmarks
+      </button>
+      {busy && <span className="text-gray-500">Writing PDFs…</span>}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CanvasText } from '@/lib/types';
+import { ViewState } from '@/lib/viewport';
+
+interface TextEditorProps {
+  text: CanvasText;
+  view: ViewState;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}
+
+// Textarea laid over a text object while it is edited in place. It has to sit in
+// the same positioned container as the stage so layout coordinates line up.
+export default function TextEditor({ text, view, onCommit, onCancel }: TextEditorProps) {
+  const [value, setValue] = useState(text.text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+    textareaRef.current?.select();
+  }, []);
+
+  // Grow with the content so wrapping matches the canvas
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.style.height = 'auto';
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [value]);
+
+  const scale = view.scale;
+  return (
+    <textarea
+      ref={textareaRef}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => onCommit(value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          onCancel();
+        } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+          onCommit(value);
+        }
+      }}
+      className="absolute z-30 m-0 p-0 border-none outline-none resize-none overflow-hidden bg-transparent"
+      style={{
+        left: view.x + text.x * scale,
+        top: view.y + text.y * scale,
+        width: text.width * Math.abs(text.scaleX) * scale,
+        fontFamily: text.fontFamily,
+        fontSize: text.fontSize * Math.abs(text.scaleY) * scale,
+        fontWeight: text.fontWeight,
+        lineHeight: text.lineHeight,
+        color: text.fill,
+        textAlign: text.align,
+        transform: `rotate(${text.rotation}deg)`,
+        transformOrigin: 'top left',
+        caretColor: text.fill,
+      }}
+    />
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import React from 'react';
+import { CanvasText, TextAlign } from '@/lib/types';
+import { FONT_FAMILIES } from '@/lib/text';
+
+type TextStyle = Pick<CanvasText, 'fontFamily' | 'fontSize' | 'fontWeight' | 'fill' | 'align' | 'lineHeight'>;
+
+interface TextSettingsProps {
+  text: CanvasText;
+  onChange: (style: Partial<TextStyle>) => void;
+}
+
+const ALIGNMENTS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+// Style controls for the selected text object, shown under the page settings
+export default function TextSettings({ text, onChange }: TextSettingsProps) {
+  const families = FONT_FAMILIES.includes(text.fontFamily) ? FONT_FAMILIES : [text.fontFamily, ...FONT_FAMILIES];
+
+  const changeNumber = (key: 'fontSize' | 'lineHeight', raw: string, min: number) => {
+    const parsed = parseFloat(raw);
+    if (Number.isFinite(parsed) && parsed >= min && parsed !== text[key]) {
+      onChange({ [key]: parsed });
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-700 text-white px-4 py-1 flex items-center space-x-3 text-sm border-t border-gray-600">
+      <span className="text-gray-300">Text</span>
+      <select
+        value={text.fontFamily}
+        onChange={(e) => onChange({ fontFamily: e.target.value })}
+        className="px-1 py-0.5 rounded text-gray-900"
+        title="Font family"
+      >
+        {families.map(family => (
+          <option key={family} value={family}>{family}</option>
+        ))}
+      </select>
+      <label className="flex items-center space-x-1">
+        <span className="text-gray-300">Size</span>
+        <input
+          type="number"
+          min={1}
+          defaultValue={text.fontSize}
+          key={`size-${text.id}-${text.fontSize}`}
+          onBlur={(e) => changeNumber('fontSize', e.target.value, 1)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') changeNumber('fontSize', e.currentTarget.value, 1);
+          }}
+          className="w-16 px-1 py-0.5 rounded text-gray-900"
+        />
+      </label>
+      <button
+        onClick={() => onChange({ fontWeight: text.fontWeight === 'bold' ? 'normal' : 'bold' })}
+        className={`px-2 py-0.5 rounded font-bold ${text.fontWeight === 'bold' ? 'bg-blue-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+        title="Bold"
+      >
+        B
+      </button>
+      <input
+        type="color"
+        value={text.fill}
+        onChange={(e) => onChange({ fill: e.target.value })}
+        className="w-8 h-6 rounded"
+        title="Colour"
+      />
+      <div className="flex">
+        {ALIGNMENTS.map(alignment => (
+          <button
+            key={alignment.value}
+            onClick={() => onChange({ align: alignment.value })}
+            className={`px-2 py-0.5 first:rounded-l last:rounded-r ${
+              text.align === alignment.value ? 'bg-blue-500' : 'bg-gray-600 hover:bg-gray-500'
+            }`}
+          >
+            {alignment.label}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center space-x-1">
+        <span className="text-gray-300">Line height</span>
+        <input
+          type="number"
+          min={0.5}
+          step={0.1}
+          defaultValue={text.lineHeight}
+          key={`line-${text.id}-${text.lineHeight}`}
+          onBlur={(e) => changeNumber('lineHeight', e.target.value, 0.5)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') changeNumber('lineHeight', e.currentTarget.value, 0.5);
+          }}
+          className="w-16 px-1 py-0.5 rounded text-gray-900"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { SHAPE_TOOLS, ShapeTool } from '@/lib/shapes';
+import { FREEHAND_TOOLS } from '@/lib/freehand';
+import { FreehandTool } from '@/lib/types';
+
+export type Tool = 'select' | ShapeTool | FreehandTool;
+
+interface ToolPaletteProps {
+  tool: Tool;
+  onChange: (tool: Tool) => void;
+}
+
+// Drawing tools, floating at the left edge of the canvas area
+export default function ToolPalette({ tool, onChange }: ToolPaletteProps) {
+  const tools: { value: Tool; label: string; icon: string }[] = [
+    { value: 'select', label: 'Select', icon: '↖' },
+    ...SHAPE_TOOLS,
+    ...FREEHAND_TOOLS,
+  ];
+
+  return (
+    <div className="absolute z-10 flex flex-col bg-white rounded shadow-lg overflow-hidden" style={{ left: 28, bottom: 16 }}>
+      {tools.map(item => (
+        <button
+          key={item.value}
+          onClick={() => onChange(item.value)}
+          className={`w-9 h-9 text-lg ${
+            tool === item.value ? 'bg-blue-500 text-white' : 'text-gray-700 hover:bg-gray-100'
+          }`}
+          title={item.label}
+        >
+          {item.icon}
+        </button>
+      ))}
+    </div>
+  );
+}
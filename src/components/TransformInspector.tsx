@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { Bounds } from '@/lib/geometry';
+import { FlipAxis, getObjectSize } from '@/lib/transforms';
+import { CanvasObject } from '@/lib/types';
+import { Unit } from '@/lib/units';
+import UnitInput from '@/components/UnitInput';
+
+interface TransformInspectorProps {
+  // The single selected object, or null when several are selected
+  object: CanvasObject | null;
+  // Bounding box of the whole selection; X and Y edit its top left corner
+  bounds: Bounds;
+  unit: Unit;
+  aspectLocked: boolean;
+  onAspectLockedChange: (locked: boolean) => void;
+  onMove: (x: number, y: number) => void;
+  onResize: (width: number, height: number) => void;
+  onRotate: (rotation: number) => void;
+  onRotateBy: (degrees: number) => void;
+  onFlip: (axis: FlipAxis) => void;
+}
+
+// Exact position, size and rotation for the selection, floating with the zoom controls.
+// Size and rotation are only editable for a single object.
+export default function TransformInspector({
+  object,
+  bounds,
+  unit,
+  aspectLocked,
+  onAspectLockedChange,
+  onMove,
+  onResize,
+  onRotate,
+  onRotateBy,
+  onFlip,
+}: TransformInspectorProps) {
+  const size = object ? getObjectSize(object) : bounds;
+  const ratio = size.width > 0 && size.height > 0 ? size.height / size.width : null;
+
+  const resizeWidth = (width: number) =>
+    onResize(width, aspectLocked && ratio !== null ? width * ratio : size.height);
+  const resizeHeight = (height: number) =>
+    onResize(aspectLocked && ratio !== null ? height / ratio : size.width, height);
+
+  return (
+    <div className="flex flex-col space-y-1 bg-gray-700 bg-opacity-90 rounded p-2 text-white text-xs">
+      <div className="flex items-center space-x-2">
+        <UnitInput label="X" value={bounds.x} unit={unit} onChange={(x) => onMove(x, bounds.y)} />
+        <UnitInput label="Y" value={bounds.y} unit={unit} onChange={(y) => onMove(bounds.x, y)} />
+      </div>
+      <div className="flex items-center space-x-2">
+        <UnitInput label="W" value={size.width} unit={unit} min={1} onChange={resizeWidth} disabled={!object} />
+        {/* Text height follows its content */}
+        <UnitInput
+          label="H"
+          value={size.height}
+          unit={unit}
+          min={1}
+          onChange={resizeHeight}
+          disabled={!object || object.type === 'text'}
+        />
+        <button
+          onClick={() => onAspectLockedChange(!aspectLocked)}
+          className={`px-1 rounded hover:bg-gray-600 disabled:opacity-50 ${aspectLocked ? 'bg-gray-600' : ''}`}
+          disabled={!object}
+          title={aspectLocked ? 'Unlock aspect ratio' : 'Lock aspect ratio'}
+        >
+          {aspectLocked ? '🔗' : '⛓'}
+        </button>
+      </div>
+      <div className="flex items-center space-x-1">
+        {/* Lines are stored unrotated, so only the quick rotations apply to them */}
+        <UnitInput
+          label="°"
+          value={object && object.type !== 'line' ? object.rotation : 0}
+          unit="px"
+          onChange={onRotate}
+          className="w-12"
+          disabled={!object || object.type === 'line'}
+        />
+        <button onClick={() => onRotateBy(-90)} className="px-2 py-1 rounded hover:bg-gray-600" title="Rotate 90° left">⟲</button>
+        <button onClick={() => onRotateBy(90)} className="px-2 py-1 rounded hover:bg-gray-600" title="Rotate 90° right">⟳</button>
+        <button onClick={() => onFlip('horizontal')} className="px-2 py-1 rounded hover:bg-gray-600" title="Flip horizontally">⇋</button>
+        <button onClick={() => onFlip('vertical')} className="px-2 py-1 rounded hover:bg-gray-600" title="Flip vertically">⥮</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Unit, formatUnit, toPx } from '@/lib/units';
+
+interface UnitInputProps {
+  label: string;
+  // Value in layout pixels
+  value: number;
+  unit: Unit;
+  min?: number;
+  onChange: (valuePx: number) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Number input shown in the chosen unit. The draft text is only committed on
+// blur or Enter so partially typed values like "12." aren't reformatted.
+export default function UnitInput({ label, value, unit, min, onChange, className = 'w-16', disabled }: UnitInputProps) {
+  const [draft, setDraft] = useState(String(formatUnit(value, unit)));
+
+  useEffect(() => {
+    setDraft(String(formatUnit(value, unit)));
+  }, [value, unit]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    const valuePx = min !== undefined ? Math.max(min, toPx(parsed, unit)) : toPx(parsed, unit);
+    if (Number.isFinite(parsed) && parsed !== formatUnit(value, unit)) {
+      onChange(valuePx);
+    } else {
+      setDraft(String(formatUnit(value, unit)));
+    }
+  };
+
+  return (
+    <label className="flex items-center space-x-1">
+      <span className="text-gray-300">{label}</span>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={draft}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        className={`${className} px-1 py-0.5 rounded text-gray-900 disabled:opacity-50`}
+      />
+    </label>
+  );
+}
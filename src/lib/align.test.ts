@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { alignObjects, distributeObjects, getReferenceBounds } from './align';
+import { createShape } from './shapes';
+
+const rect = (id: string, x: number, y: number, width = 20, height = 10) =>
+  ({ ...createShape('rect', { x, y, width, height }), id });
+
+const reference = { x: 0, y: 0, width: 200, height: 100 };
+
+describe('alignObjects', () => {
+  const objects = [rect('a', 30, 40), rect('b', 90, 10, 40, 30)];
+
+  it('aligns edges and centres horizontally without moving y', () => {
+    expect(alignObjects(objects, 'left', reference)).toEqual([{ id: 'a', x: 0, y: 40 }, { id: 'b', x: 0, y: 10 }]);
+    expect(alignObjects(objects, 'center', reference)).toEqual([{ id: 'a', x: 90, y: 40 }, { id: 'b', x: 80, y: 10 }]);
+    expect(alignObjects(objects, 'right', reference)).toEqual([{ id: 'a', x: 180, y: 40 }, { id: 'b', x: 160, y: 10 }]);
+  });
+
+  it('aligns edges and centres vertically without moving x', () => {
+    expect(alignObjects(objects, 'top', reference)).toEqual([{ id: 'a', x: 30, y: 0 }, { id: 'b', x: 90, y: 0 }]);
+    expect(alignObjects(objects, 'middle', reference)).toEqual([{ id: 'a', x: 30, y: 45 }, { id: 'b', x: 90, y: 35 }]);
+    expect(alignObjects(objects, 'bottom', reference)).toEqual([{ id: 'a', x: 30, y: 90 }, { id: 'b', x: 90, y: 70 }]);
+  });
+
+  it('aligns the rotated bounding box', () => {
+    // Turned a quarter clockwise about x/y, the box spans x 40..50
+    const rotated = { ...rect('a', 50, 0), rotation: 90 };
+    const [placement] = alignObjects([rotated], 'left', reference);
+    expect(placement.x).toBeCloseTo(10);
+    expect(placement.y).toBeCloseTo(0);
+  });
+});
+
+describe('distributeObjects', () => {
+  it('leaves equal gaps with the outer objects against the reference edges', () => {
+    const objects = [rect('a', 50, 0), rect('b', 10, 0, 40), rect('c', 120, 0)];
+    expect(distributeObjects(objects, 'horizontal', reference)).toEqual([
+      { id: 'b', x: 0, y: 0 },
+      { id: 'a', x: 100, y: 0 },
+      { id: 'c', x: 180, y: 0 },
+    ]);
+  });
+
+  it('distributes vertically by top edge order', () => {
+    const objects = [rect('a', 0, 60), rect('b', 5, 20)];
+    expect(distributeObjects(objects, 'vertical', reference)).toEqual([
+      { id: 'b', x: 5, y: 0 },
+      { id: 'a', x: 0, y: 90 },
+    ]);
+  });
+
+  it('overlaps objects evenly when they do not fit', () => {
+    const objects = [rect('a', 0, 0, 100), rect('b', 0, 0, 100), rect('c', 0, 0, 100)];
+    expect(distributeObjects(objects, 'horizontal', reference).map(placement => placement.x)).toEqual([0, 50, 100]);
+  });
+
+  it('needs at least two objects', () => {
+    expect(distributeObjects([rect('a', 30, 30)], 'horizontal', reference)).toEqual([]);
+  });
+});
+
+describe('getReferenceBounds', () => {
+  const objects = [rect('a', 30, 40), rect('b', 90, 10, 40, 30)];
+
+  it('uses the combined bounds of the selection', () => {
+    expect(getReferenceBounds(objects, 'selection', reference)).toEqual({ x: 30, y: 10, width: 100, height: 40 });
+  });
+
+  it('uses the artboard when asked', () => {
+    expect(getReferenceBounds(objects, 'artboard', reference)).toBe(reference);
+  });
+});
@@ -0,0 +1,77 @@
+import { Bounds, getObjectBounds, unionBounds } from './geometry';
+import { CanvasObject } from './types';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type AlignReference = 'selection' | 'artboard';
+
+export const ALIGN_MODES: { value: AlignMode; label: string; icon: string }[] = [
+  { value: 'left', label: 'Align left', icon: '⇤' },
+  { value: 'center', label: 'Align centre', icon: '↔' },
+  { value: 'right', label: 'Align right', icon: '⇥' },
+  { value: 'top', label: 'Align top', icon: '⤒' },
+  { value: 'middle', label: 'Align middle', icon: '↕' },
+  { value: 'bottom', label: 'Align bottom', icon: '⤓' },
+];
+
+// New positions for moved objects; only x/y change, so rotation and size are kept
+export interface Placement {
+  id: string;
+  x: number;
+  y: number;
+}
+
+const moveBy = (object: CanvasObject, dx: number, dy: number): Placement => ({
+  id: object.id,
+  x: object.x + dx,
+  y: object.y + dy,
+});
+
+// The box objects are aligned or distributed within
+export const getReferenceBounds = (objects: CanvasObject[], reference: AlignReference, artboard: Bounds): Bounds | null =>
+  reference === 'artboard' ? artboard : unionBounds(objects.map(getObjectBounds));
+
+// Lines up the rotated bounding boxes of `objects` with an edge or centre of `reference`
+export const alignObjects = (objects: CanvasObject[], mode: AlignMode, reference: Bounds): Placement[] =>
+  objects.map(object => {
+    const bounds = getObjectBounds(object);
+    switch (mode) {
+      case 'left':
+        return moveBy(object, reference.x - bounds.x, 0);
+      case 'center':
+        return moveBy(object, reference.x + (reference.width - bounds.width) / 2 - bounds.x, 0);
+      case 'right':
+        return moveBy(object, reference.x + reference.width - bounds.x - bounds.width, 0);
+      case 'top':
+        return moveBy(object, 0, reference.y - bounds.y);
+      case 'middle':
+        return moveBy(object, 0, reference.y + (reference.height - bounds.height) / 2 - bounds.y);
+      default:
+        return moveBy(object, 0, reference.y + reference.height - bounds.y - bounds.height);
+    }
+  });
+
+// Spreads objects across `reference` with equal gaps between their bounding boxes.
+// The first and last object (by position) end up against the reference edges.
+export const distributeObjects = (objects: CanvasObject[], axis: DistributeAxis, reference: Bounds): Placement[] => {
+  if (objects.length < 2) return [];
+  const horizontal = axis === 'horizontal';
+  const items = objects
+    .map(object => {
+      const bounds = getObjectBounds(object);
+      return horizontal
+        ? { object, start: bounds.x, size: bounds.width }
+        : { object, start: bounds.y, size: bounds.height };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const span = horizontal ? reference.width : reference.height;
+  const totalSize = items.reduce((sum, item) => sum + item.size, 0);
+  const gap = (span - totalSize) / (items.length - 1);
+  let position = horizontal ? reference.x : reference.y;
+  return items.map(item => {
+    const delta = position - item.start;
+    position += item.size + gap;
+    return horizontal ? moveBy(item.object, delta, 0) : moveBy(item.object, 0, delta);
+  });
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { applyCropFrame, clampCropFrame, fitCropAspect, getUncroppedBox } from './crop';
+import { Bounds } from './geometry';
+import { CanvasImage } from './types';
+
+// A 400x200 pixel bitmap shown at half size
+const image = (overrides: Partial<CanvasImage> = {}): CanvasImage => ({
+  id: 'image',
+  type: 'image',
+  src: 'data:image/png;base64,',
+  x: 100,
+  y: 50,
+  width: 200,
+  height: 100,
+  scaleX: 1,
+  scaleY: 1,
+  rotation: 0,
+  ...overrides,
+});
+
+const expectBoundsClose = (actual: Bounds, expected: Bounds) => {
+  (['x', 'y', 'width', 'height'] as const).forEach(key => expect(actual[key]).toBeCloseTo(expected[key]));
+};
+
+describe('getUncroppedBox', () => {
+  it('matches the image box when nothing is cropped', () => {
+    expectBoundsClose(getUncroppedBox(image(), 400, 200), { x: 0, y: 0, width: 200, height: 100 });
+  });
+
+  it('extends past the visible box by the cropped-off pixels', () => {
+    const cropped = image({ width: 100, height: 50, cropX: 100, cropY: 50, cropWidth: 200, cropHeight: 100 });
+    expect(getUncroppedBox(cropped, 400, 200)).toEqual({ x: -50, y: -25, width: 200, height: 100 });
+  });
+});
+
+describe('clampCropFrame', () => {
+  const limits = { x: 0, y: 0, width: 200, height: 100 };
+
+  it('moves a frame back inside the limits', () => {
+    expect(clampCropFrame({ x: 180, y: -10, width: 50, height: 40 }, limits)).toEqual({ x: 150, y: 0, width: 50, height: 40 });
+  });
+
+  it('shrinks a frame larger than the limits', () => {
+    expect(clampCropFrame({ x: -20, y: 0, width: 300, height: 100 }, limits)).toEqual(limits);
+  });
+
+  it('keeps the minimum crop size', () => {
+    expect(clampCropFrame({ x: 10, y: 10, width: 2, height: 0 }, limits)).toEqual({ x: 10, y: 10, width: 10, height: 10 });
+  });
+});
+
+describe('fitCropAspect', () => {
+  it('fits the largest centred frame of the ratio', () => {
+    expect(fitCropAspect({ x: 0, y: 0, width: 200, height: 100 }, 1)).toEqual({ x: 50, y: 0, width: 100, height: 100 });
+    expect(fitCropAspect({ x: 0, y: 0, width: 100, height: 200 }, 2)).toEqual({ x: 0, y: 75, width: 100, height: 50 });
+  });
+});
+
+describe('applyCropFrame', () => {
+  it('turns a frame into crop pixels and a new position', () => {
+    expect(applyCropFrame(image(), { x: 50, y: 25, width: 100, height: 50 }, 400, 200)).toEqual({
+      x: 150,
+      y: 75,
+      width: 100,
+      height: 50,
+      cropX: 100,
+      cropY: 50,
+      cropWidth: 200,
+      cropHeight: 100,
+    });
+  });
+
+  it('can loosen an existing crop', () => {
+    const cropped = image({ width: 100, height: 50, cropX: 100, cropY: 50, cropWidth: 200, cropHeight: 100 });
+    const uncropped = getUncroppedBox(cropped, 400, 200);
+    expect(applyCropFrame(cropped, uncropped, 400, 200)).toMatchObject({
+      x: 50,
+      y: 25,
+      cropX: 0,
+      cropY: 0,
+      cropWidth: 400,
+      cropHeight: 200,
+    });
+  });
+
+  it('follows the rotation and scale of the image', () => {
+    const rotated = image({ rotation: 90, scaleX: 2, scaleY: 2 });
+    const result = applyCropFrame(rotated, { x: 50, y: 0, width: 100, height: 100 }, 400, 200);
+    expect(result.x).toBeCloseTo(100);
+    expect(result.y).toBeCloseTo(150);
+    expect(result.cropX).toBeCloseTo(100);
+    expect(result.cropWidth).toBeCloseTo(200);
+  });
+});
@@ -0,0 +1,86 @@
+import { Bounds } from './geometry';
+import { applyToPoint, nodeMatrix } from './matrix';
+import { CanvasImage } from './types';
+
+// Crops are stored as Konva crop attributes on the image, in pixels of its `src`,
+// so they can always be loosened again. While editing, the crop frame is kept in
+// the image's local (unrotated) layout units with the origin at its top left corner.
+
+export type CropAspect = 'free' | '1:1' | '4:3' | 'page' | 'original';
+
+export const CROP_ASPECTS: { value: CropAspect; label: string }[] = [
+  { value: 'free', label: 'Free' },
+  { value: '1:1', label: '1:1' },
+  { value: '4:3', label: '4:3' },
+  { value: 'page', label: 'Page' },
+  { value: 'original', label: 'Original' },
+];
+
+export const MIN_CROP_SIZE = 10;
+
+// Where the uncropped content lands in the image's local box, following Konva's crop
+// semantics: the source region (cropX, cropY, cropWidth, cropHeight) is stretched over width/height
+export const getUncroppedBox = (image: CanvasImage, naturalWidth: number, naturalHeight: number): Bounds => {
+  const cropX = image.cropX ?? 0;
+  const cropY = image.cropY ?? 0;
+  const cropWidth = image.cropWidth || naturalWidth;
+  const cropHeight = image.cropHeight || naturalHeight;
+  return {
+    x: (-cropX * image.width) / cropWidth,
+    y: (-cropY * image.height) / cropHeight,
+    width: (naturalWidth * image.width) / cropWidth,
+    height: (naturalHeight * image.height) / cropHeight,
+  };
+};
+
+// Keeps the frame inside `limits`, shrinking it if it is larger
+export const clampCropFrame = (frame: Bounds, limits: Bounds): Bounds => {
+  const width = Math.max(MIN_CROP_SIZE, Math.min(frame.width, limits.width));
+  const height = Math.max(MIN_CROP_SIZE, Math.min(frame.height, limits.height));
+  return {
+    x: Math.min(Math.max(frame.x, limits.x), limits.x + limits.width - width),
+    y: Math.min(Math.max(frame.y, limits.y), limits.y + limits.height - height),
+    width,
+    height,
+  };
+};
+
+// Largest frame of the given width/height ratio centered inside `frame`
+export const fitCropAspect = (frame: Bounds, ratio: number): Bounds => {
+  const width = Math.min(frame.width, frame.height * ratio);
+  const height = width / ratio;
+  return {
+    x: frame.x + (frame.width - width) / 2,
+    y: frame.y + (frame.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+// Turns an edited frame back into image attributes. The frame's top left corner
+// becomes the new position, following the image's rotation and scale.
+export const applyCropFrame = (
+  image: CanvasImage,
+  frame: Bounds,
+  naturalWidth: number,
+  naturalHeight: number
+): Partial<CanvasImage> => {
+  const uncropped = getUncroppedBox(image, naturalWidth, naturalHeight);
+  const pixelsPerUnitX = naturalWidth / uncropped.width;
+  const pixelsPerUnitY = naturalHeight / uncropped.height;
+  const origin = applyToPoint(
+    nodeMatrix(image.x, image.y, image.rotation, image.scaleX, image.scaleY),
+    frame.x,
+    frame.y
+  );
+  return {
+    x: origin.x,
+    y: origin.y,
+    width: frame.width,
+    height: frame.height,
+    cropX: (frame.x - uncropped.x) * pixelsPerUnitX,
+    cropY: (frame.y - uncropped.y) * pixelsPerUnitY,
+    cropWidth: frame.width * pixelsPerUnitX,
+    cropHeight: frame.height * pixelsPerUnitY,
+  };
+};
@@ -0,0 +1,80 @@
+import { Artboard, Guide } from './types';
+import { toPx } from './units';
+import { mapObjectsDeep } from './groups';
+
+// A4 landscape
+export const DEFAULT_ARTBOARD_WIDTH = toPx(297, 'mm');
+export const DEFAULT_ARTBOARD_HEIGHT = toPx(210, 'mm');
+
+export const DEFAULT_PAGE_GUIDES = {
+  margin: toPx(15, 'mm'),
+  bleed: toPx(3, 'mm'),
+  safeArea: toPx(5, 'mm'),
+};
+
+export const createArtboard = (
+  name: string,
+  settings: Partial<Omit<Artboard, 'id' | 'name' | 'objects' | 'guides'>> = {}
+): Artboard => ({
+  id: `artboard-${Date.now()}-${Math.random()}`,
+  name,
+  width: DEFAULT_ARTBOARD_WIDTH,
+  height: DEFAULT_ARTBOARD_HEIGHT,
+  ...DEFAULT_PAGE_GUIDES,
+  ...settings,
+  objects: [],
+  guides: [],
+});
+
+export const createGuide = (axis: Guide['axis'], position: number): Guide => ({
+  id: `guide-${Date.now()}-${Math.random()}`,
+  axis,
+  position,
+});
+
+// Snap lines for the page edges, center, margin, safe area, bleed and ruler guides
+export const getArtboardGuides = (artboard: Artboard) => {
+  const { width, height, margin, bleed, safeArea, guides } = artboard;
+  const insets = [0, margin, safeArea, -bleed];
+  return {
+    vertical: [
+      width / 2,
+      ...insets.flatMap(inset => [inset, width - inset]),
+      ...guides.filter(guide => guide.axis === 'x').map(guide => guide.position),
+    ],
+    horizontal: [
+      height / 2,
+      ...insets.flatMap(inset => [inset, height - inset]),
+      ...guides.filter(guide => guide.axis === 'y').map(guide => guide.position),
+    ],
+  };
+};
+
+// Copies an artboard and its contents; every object gets a fresh id
+export const duplicateArtboard = (artboard: Artboard, name: string): Artboard => ({
+  ...artboard,
+  id: `artboard-${Date.now()}-${Math.random()}`,
+  name,
+  objects: mapObjectsDeep(artboard.objects, object => ({
+    ...object,
+    id: `${object.type}-${Date.now()}-${Math.random()}`,
+  })),
+});
+
+export const moveArtboard = (artboards: Artboard[], fromIndex: number, toIndex: number): Artboard[] => {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= artboards.length) {
+    return artboards;
+  }
+  const reordered = [...artboards];
+  const [moved] = reordered.splice(fromIndex, 1);
+  reordered.splice(Math.max(0, Math.min(toIndex, reordered.length)), 0, moved);
+  return reordered;
+};
+
+// Next free "Page N" name
+export const nextArtboardName = (artboards: Artboard[]) => {
+  const used = new Set(artboards.map(artboard => artboard.name));
+  let number = artboards.length + 1;
+  while (used.has(`Page ${number}`)) number++;
+  return `Page ${number}`;
+};
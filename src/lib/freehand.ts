@@ -0,0 +1,127 @@
+import { CanvasFreehand, FreehandTool } from './types';
+
+export const FREEHAND_TOOLS: { value: FreehandTool; label: string; icon: string }[] = [
+  { value: 'pen', label: 'Pen', icon: '✎' },
+  { value: 'highlighter', label: 'Highlighter', icon: '▌' },
+];
+
+export const FREEHAND_STYLES: Record<FreehandTool, Pick<CanvasFreehand, 'stroke' | 'strokeWidth' | 'opacity'>> = {
+  pen: { stroke: '#1d4ed8', strokeWidth: 3, opacity: 1 },
+  highlighter: { stroke: '#facc15', strokeWidth: 18, opacity: 0.4 },
+};
+
+// One pointer sample in layout coordinates; pressure is only set for styluses
+export interface StrokeSample {
+  x: number;
+  y: number;
+  pressure?: number;
+}
+
+type Point = { x: number; y: number };
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Ramer-Douglas-Peucker: drops samples closer than `tolerance` to the simplified line
+export const simplifyStroke = <T extends Point>(samples: T[], tolerance: number): T[] => {
+  if (samples.length <= 2) return samples;
+  const keep = new Array(samples.length).fill(false);
+  keep[0] = keep[samples.length - 1] = true;
+  const stack: [number, number][] = [[0, samples.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(samples[i], samples[first], samples[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return samples.filter((_, index) => keep[index]);
+};
+
+// Builds a stroke object from raw samples. Highlighters ignore pressure so
+// they keep an even band like a marker.
+export const createFreehandStroke = (tool: FreehandTool, samples: StrokeSample[], tolerance: number): CanvasFreehand => {
+  const simplified = simplifyStroke(samples, tolerance);
+  const xs = simplified.map(sample => sample.x);
+  const ys = simplified.map(sample => sample.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  const hasPressure = tool === 'pen' && simplified.every(sample => sample.pressure !== undefined);
+  return {
+    id: `freehand-${Date.now()}-${Math.random()}`,
+    type: 'freehand',
+    tool,
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+    scaleX: 1,
+    scaleY: 1,
+    rotation: 0,
+    points: simplified.flatMap(sample => [sample.x - x, sample.y - y]),
+    pressures: hasPressure ? simplified.map(sample => sample.pressure!) : null,
+    ...FREEHAND_STYLES[tool],
+  };
+};
+
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Quadratic curves through the midpoints of consecutive points
+const smoothThrough = (points: Point[]) =>
+  points.slice(1, -1).map((point, index) => {
+    const mid = midpoint(point, points[index + 2]);
+    return `Q ${point.x} ${point.y} ${mid.x} ${mid.y}`;
+  }).join(' ') + ` L ${points[points.length - 1].x} ${points[points.length - 1].y}`;
+
+// Filled outline of a stroke as SVG path data in its local coordinates. The
+// width follows the pressure at each point and both ends are rounded, so the
+// same path draws on the canvas and in the PDF.
+export const freehandPath = (stroke: Pick<CanvasFreehand, 'points' | 'pressures' | 'strokeWidth'>) => {
+  const centre: Point[] = [];
+  for (let i = 0; i < stroke.points.length; i += 2) {
+    centre.push({ x: stroke.points[i], y: stroke.points[i + 1] });
+  }
+  if (centre.length === 0) return '';
+  if (centre.length === 1) centre.push({ ...centre[0] });
+
+  const radii = centre.map((_, index) => {
+    const pressure = stroke.pressures?.[index];
+    return (stroke.strokeWidth / 2) * (pressure === undefined ? 1 : 0.4 + pressure * 1.2);
+  });
+  const left: Point[] = [];
+  const right: Point[] = [];
+  centre.forEach((point, index) => {
+    const before = centre[Math.max(0, index - 1)];
+    const after = centre[Math.min(centre.length - 1, index + 1)];
+    const length = Math.hypot(after.x - before.x, after.y - before.y);
+    const normal = length === 0 ? { x: 0, y: 1 } : { x: -(after.y - before.y) / length, y: (after.x - before.x) / length };
+    left.push({ x: point.x + normal.x * radii[index], y: point.y + normal.y * radii[index] });
+    right.push({ x: point.x - normal.x * radii[index], y: point.y - normal.y * radii[index] });
+  });
+  right.reverse();
+
+  const endRadius = radii[radii.length - 1];
+  const startRadius = radii[0];
+  return [
+    `M ${left[0].x} ${left[0].y}`,
+    smoothThrough(left),
+    `A ${endRadius} ${endRadius} 0 0 0 ${right[0].x} ${right[0].y}`,
+    smoothThrough(right),
+    `A ${startRadius} ${startRadius} 0 0 0 ${left[0].x} ${left[0].y}`,
+    'Z',
+  ].join(' ');
+};
@@ -0,0 +1,37 @@
+import { applyToPoint, nodeMatrix } from './matrix';
+import { CanvasObjectBase } from './types';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Axis-aligned bounding box of an object after rotation and scale
+export const getObjectBounds = (object: CanvasObjectBase): Bounds => {
+  const matrix = nodeMatrix(object.x, object.y, object.rotation, object.scaleX, object.scaleY);
+  const corners = [
+    applyToPoint(matrix, 0, 0),
+    applyToPoint(matrix, object.width, 0),
+    applyToPoint(matrix, 0, object.height),
+    applyToPoint(matrix, object.width, object.height),
+  ];
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+export const unionBounds = (bounds: Bounds[]): Bounds | null => {
+  if (bounds.length === 0) return null;
+  const left = Math.min(...bounds.map(b => b.x));
+  const top = Math.min(...bounds.map(b => b.y));
+  const right = Math.max(...bounds.map(b => b.x + b.width));
+  const bottom = Math.max(...bounds.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
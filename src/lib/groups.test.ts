@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { getObjectBounds } from './geometry';
+import { createGroup, flattenObjects, mapObjectsDeep, ungroupChildren } from './groups';
+import { createShape, lineEndpoints, lineGeometry } from './shapes';
+import { CanvasGroup, CanvasLine } from './types';
+
+const rect = (id: string, x: number, y: number, width = 40, height = 20) =>
+  ({ ...createShape('rect', { x, y, width, height }), id });
+
+const line = (id: string, start: { x: number; y: number }, end: { x: number; y: number }): CanvasLine => ({
+  id,
+  type: 'line',
+  ...lineGeometry(start, end),
+  stroke: '#000000',
+  strokeWidth: 1,
+  dash: 'solid',
+  opacity: 1,
+  arrowStart: false,
+  arrowEnd: false,
+});
+
+const group = (id: string, children: CanvasGroup['children'], overrides: Partial<CanvasGroup> = {}): CanvasGroup => ({
+  id,
+  type: 'group',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  scaleX: 1,
+  scaleY: 1,
+  rotation: 0,
+  children,
+  ...overrides,
+});
+
+const expectPointClose = (actual: { x: number; y: number }, expected: { x: number; y: number }) => {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+};
+
+describe('createGroup', () => {
+  it('places the group at the combined bounds of its objects', () => {
+    const result = createGroup([rect('a', 10, 20), rect('b', 100, 60, 30, 50)]);
+    expect(result).toMatchObject({ type: 'group', x: 10, y: 20, width: 120, height: 90, scaleX: 1, scaleY: 1, rotation: 0 });
+  });
+
+  it('moves children into the group space and keeps their order', () => {
+    const result = createGroup([rect('a', 10, 20), rect('b', 100, 60)]);
+    expect(result?.children.map(child => [child.id, child.x, child.y])).toEqual([['a', 0, 0], ['b', 90, 40]]);
+  });
+
+  it('uses rotated bounding boxes', () => {
+    const rotated = { ...rect('a', 100, 100, 40, 20), rotation: 90 };
+    const result = createGroup([rotated]);
+    expect(result).toMatchObject({ x: 80, y: 100, width: 20, height: 40 });
+    expect(result?.children[0]).toMatchObject({ x: 20, y: 0 });
+  });
+
+  it('returns null for no objects', () => {
+    expect(createGroup([])).toBeNull();
+  });
+});
+
+describe('flattenObjects', () => {
+  it('lists each group before its children at any depth', () => {
+    const objects = [rect('a', 0, 0), group('g', [rect('b', 0, 0), group('h', [rect('c', 0, 0)])]), rect('d', 0, 0)];
+    expect(flattenObjects(objects).map(object => object.id)).toEqual(['a', 'g', 'b', 'h', 'c', 'd']);
+  });
+});
+
+describe('mapObjectsDeep', () => {
+  it('updates nested children and keeps the group structure', () => {
+    const objects = [group('g', [rect('a', 0, 0), group('h', [rect('b', 0, 0)])])];
+    const result = mapObjectsDeep(objects, object => ({ ...object, locked: true }));
+    expect(flattenObjects(result).every(object => object.locked)).toBe(true);
+    expect((result[0] as CanvasGroup).children[1].type).toBe('group');
+  });
+});
+
+describe('ungroupChildren', () => {
+  it('undoes createGroup', () => {
+    const objects = [rect('a', 10, 20), rect('b', 100, 60)];
+    const result = ungroupChildren(createGroup(objects)!);
+    result.forEach((child, index) => {
+      expect(child.x).toBeCloseTo(objects[index].x);
+      expect(child.y).toBeCloseTo(objects[index].y);
+      expect(child.rotation).toBeCloseTo(0);
+    });
+  });
+
+  it('folds the group rotation and scale into each child', () => {
+    const result = ungroupChildren(group('g', [rect('a', 10, 0)], { x: 100, y: 100, rotation: 90, scaleX: 2, scaleY: 2 }));
+    expect(result[0].x).toBeCloseTo(100);
+    expect(result[0].y).toBeCloseTo(120);
+    expect(result[0].rotation).toBeCloseTo(90);
+    expect(result[0].scaleX).toBeCloseTo(2);
+    expect(result[0].scaleY).toBeCloseTo(2);
+    const bounds = getObjectBounds(result[0]);
+    expect(bounds.width).toBeCloseTo(40);
+    expect(bounds.height).toBeCloseTo(80);
+  });
+
+  it('keeps a flipped group mirrored', () => {
+    const result = ungroupChildren(group('g', [rect('a', 10, 0)], { x: 100, scaleX: -1 }));
+    expect(result[0].x).toBeCloseTo(90);
+    expect(result[0].scaleX * result[0].scaleY).toBeCloseTo(-1);
+  });
+
+  it('maps line endpoints and leaves lines unrotated', () => {
+    const result = ungroupChildren(group('g', [line('l', { x: 0, y: 0 }, { x: 50, y: 0 })], { x: 10, y: 10, rotation: 90 }));
+    const ungrouped = result[0] as CanvasLine;
+    expect(ungrouped.rotation).toBe(0);
+    const [start, end] = lineEndpoints(ungrouped);
+    expectPointClose(start, { x: 10, y: 10 });
+    expectPointClose(end, { x: 10, y: 60 });
+  });
+});
@@ -0,0 +1,66 @@
+import { getObjectBounds, unionBounds } from './geometry';
+import { applyToPoint, multiply, nodeMatrix } from './matrix';
+import { lineEndpoints, lineGeometry } from './shapes';
+import { CanvasGroup, CanvasObject } from './types';
+
+// Applies `update` to every object, including the children of groups at any depth
+export const mapObjectsDeep = (
+  objects: CanvasObject[],
+  update: (object: CanvasObject) => CanvasObject
+): CanvasObject[] => objects.map(object => {
+  const updated = update(object);
+  return updated.type === 'group' ? { ...updated, children: mapObjectsDeep(updated.children, update) } : updated;
+});
+
+// Every object, followed by the children of groups at any depth
+export const flattenObjects = (objects: CanvasObject[]): CanvasObject[] =>
+  objects.flatMap(object => object.type === 'group' ? [object, ...flattenObjects(object.children)] : [object]);
+
+// Wraps objects in a group placed at their combined bounds, keeping their order
+export const createGroup = (objects: CanvasObject[]): CanvasGroup | null => {
+  const bounds = unionBounds(objects.map(getObjectBounds));
+  if (!bounds) return null;
+  return {
+    id: `group-${Date.now()}-${Math.random()}`,
+    type: 'group',
+    x: bounds.x,
+    y: bounds.y,
+    width: bounds.width,
+    height: bounds.height,
+    scaleX: 1,
+    scaleY: 1,
+    rotation: 0,
+    children: objects.map(object => ({ ...object, x: object.x - bounds.x, y: object.y - bounds.y })),
+  };
+};
+
+// Moves a group's children into its parent's space, folding the group transform
+// into each child. Lines get their endpoints mapped so they stay unrotated; other
+// objects take the combined translation, rotation and scale. A group scaled
+// unevenly would skew rotated children, which objects can't represent, so those
+// keep the closest unskewed transform.
+export const ungroupChildren = (group: CanvasGroup): CanvasObject[] => {
+  const groupMatrix = nodeMatrix(group.x, group.y, group.rotation, group.scaleX, group.scaleY);
+  return group.children.map(child => {
+    if (child.type === 'line') {
+      const [start, end] = lineEndpoints(child);
+      return {
+        ...child,
+        ...lineGeometry(
+          applyToPoint(groupMatrix, start.x, start.y),
+          applyToPoint(groupMatrix, end.x, end.y)
+        ),
+      };
+    }
+    const [a, b, c, d, e, f] = multiply(nodeMatrix(child.x, child.y, child.rotation, child.scaleX, child.scaleY), groupMatrix);
+    const scaleX = Math.hypot(a, b);
+    return {
+      ...child,
+      x: e,
+      y: f,
+      rotation: (Math.atan2(b, a) * 180) / Math.PI,
+      scaleX,
+      scaleY: (a * d - b * c) / scaleX,
+    };
+  });
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { createArtboard, createGuide } from './document';
+import {
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  HistoryCommand,
+  addObjectsCommand,
+  pickAttrs,
+  pushCommand,
+  removeObjectsCommand,
+  reorderObjectsCommand,
+  replaceArtboardsCommand,
+  replaceObjectsCommand,
+  updateGuidesCommand,
+  updateObjectsCommand,
+} from './history';
+import { createShape } from './shapes';
+import { Artboard, CanvasObject } from './types';
+
+const rect = (id: string, x = 0) => ({ ...createShape('rect', { x, y: 0, width: 10, height: 10 }), id });
+
+const artboardWith = (id: string, objects: CanvasObject[]): Artboard => ({ ...createArtboard(id), id, objects });
+
+const ids = (artboards: Artboard[], artboardId = 'page') =>
+  artboards.find(artboard => artboard.id === artboardId)?.objects.map(object => object.id);
+
+// Applying then reverting a command must give back the document it started from
+const expectRoundTrip = (command: HistoryCommand, artboards: Artboard[]) => {
+  const applied = command.apply(artboards);
+  expect(applied).not.toEqual(artboards);
+  expect(command.revert(applied)).toEqual(artboards);
+  return applied;
+};
+
+describe('addObjectsCommand', () => {
+  it('appends objects on top and removes them again', () => {
+    const artboards = [artboardWith('page', [rect('a')])];
+    const applied = expectRoundTrip(addObjectsCommand('page', [rect('b'), rect('c')], 'Add'), artboards);
+    expect(ids(applied)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('leaves other pages alone', () => {
+    const other = artboardWith('other', [rect('x')]);
+    const applied = addObjectsCommand('page', [rect('b')], 'Add').apply([artboardWith('page', []), other]);
+    expect(applied[1]).toBe(other);
+  });
+});
+
+describe('removeObjectsCommand', () => {
+  const objects = ['a', 'b', 'c', 'd', 'e'].map(id => rect(id));
+
+  it('puts removed objects back at their original stacking positions', () => {
+    const artboards = [artboardWith('page', objects)];
+    const applied = expectRoundTrip(removeObjectsCommand('page', objects, ['a', 'c', 'e'], 'Delete'), artboards);
+    expect(ids(applied)).toEqual(['b', 'd']);
+  });
+
+  it('restores adjacent objects in order', () => {
+    const artboards = [artboardWith('page', objects)];
+    const command = removeObjectsCommand('page', objects, ['c', 'b'], 'Delete');
+    expect(ids(command.revert(command.apply(artboards)))).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('appends restored objects when the page has fewer objects than before', () => {
+    const command = removeObjectsCommand('page', objects, ['e'], 'Delete');
+    expect(ids(command.revert([artboardWith('page', [rect('a')])]))).toEqual(['a', 'e']);
+  });
+});
+
+describe('updateObjectsCommand', () => {
+  it('applies the after values and restores the before values', () => {
+    const objects = [rect('a', 0), rect('b', 20)];
+    const artboards = [artboardWith('page', objects)];
+    const after = { x: 50, rotation: 45 };
+    const command = updateObjectsCommand('page', [{ id: 'a', before: pickAttrs(objects[0], after), after }], 'Move');
+    const applied = expectRoundTrip(command, artboards);
+    expect(applied[0].objects[0]).toMatchObject(after);
+    expect(applied[0].objects[1]).toBe(objects[1]);
+  });
+});
+
+describe('reorderObjectsCommand', () => {
+  it('switches between the two stacking orders', () => {
+    const artboards = [artboardWith('page', [rect('a'), rect('b'), rect('c')])];
+    const applied = expectRoundTrip(reorderObjectsCommand('page', ['a', 'b', 'c'], ['c', 'a', 'b'], 'Bring to front'), artboards);
+    expect(ids(applied)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('replaceObjectsCommand', () => {
+  it('swaps the object list of one page', () => {
+    const before = [rect('a'), rect('b')];
+    const after = [rect('group')];
+    const artboards = [artboardWith('page', before), artboardWith('other', [rect('x')])];
+    const applied = expectRoundTrip(replaceObjectsCommand('page', before, after, 'Group'), artboards);
+    expect(ids(applied)).toEqual(['group']);
+    expect(ids(applied, 'other')).toEqual(['x']);
+  });
+});
+
+describe('updateGuidesCommand', () => {
+  it('swaps the guides of one page', () => {
+    const artboards = [artboardWith('page', [])];
+    const guides = [createGuide('x', 100)];
+    const applied = expectRoundTrip(updateGuidesCommand('page', [], guides, 'Add guide'), artboards);
+    expect(applied[0].guides).toEqual(guides);
+  });
+});
+
+describe('replaceArtboardsCommand', () => {
+  it('swaps the whole artboard list', () => {
+    const before = [artboardWith('page', [])];
+    const after = [...before, artboardWith('new', [])];
+    const command = replaceArtboardsCommand(before, after, 'Add page', 'new');
+    expect(expectRoundTrip(command, before)).toBe(after);
+    expect(command.artboardId).toBe('new');
+  });
+});
+
+describe('pushCommand', () => {
+  it('clears the redo stack', () => {
+    const command = addObjectsCommand('page', [], 'Add');
+    const history = pushCommand({ past: [], future: [command] }, command);
+    expect(history).toEqual({ past: [command], future: [] });
+  });
+
+  it('keeps at most HISTORY_LIMIT steps', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i <= HISTORY_LIMIT; i++) {
+      history = pushCommand(history, addObjectsCommand('page', [], `Step ${i}`));
+    }
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].label).toBe('Step 1');
+  });
+});
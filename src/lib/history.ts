@@ -0,0 +1,132 @@
+import { Artboard, CanvasObject, Guide } from './types';
+
+// A reversible change to the document. `artboardId` is the page the change
+// happened on, so undo/redo can bring it back into view.
+export interface HistoryCommand {
+  label: string;
+  artboardId?: string;
+  apply: (artboards: Artboard[]) => Artboard[];
+  revert: (artboards: Artboard[]) => Artboard[];
+}
+
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+export const pushCommand = (history: HistoryState, command: HistoryCommand): HistoryState => ({
+  past: [...history.past, command].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+const updateObjects = (
+  artboards: Artboard[],
+  artboardId: string,
+  update: (objects: CanvasObject[]) => CanvasObject[]
+) => artboards.map(artboard => artboard.id === artboardId ? { ...artboard, objects: update(artboard.objects) } : artboard);
+
+// Adds one or more objects as a single step, e.g. a bulk import
+export const addObjectsCommand = (artboardId: string, objects: CanvasObject[], label: string): HistoryCommand => {
+  const ids = new Set(objects.map(object => object.id));
+  return {
+    label,
+    artboardId,
+    apply: artboards => updateObjects(artboards, artboardId, current => [...current, ...objects]),
+    revert: artboards => updateObjects(artboards, artboardId, current => current.filter(object => !ids.has(object.id))),
+  };
+};
+
+// Removes objects, restoring them at their original stacking positions on undo
+export const removeObjectsCommand = (artboardId: string, allObjects: CanvasObject[], ids: string[], label: string): HistoryCommand => {
+  const idSet = new Set(ids);
+  const removed = allObjects
+    .map((object, index) => ({ object, index }))
+    .filter(({ object }) => idSet.has(object.id));
+  return {
+    label,
+    artboardId,
+    apply: artboards => updateObjects(artboards, artboardId, current => current.filter(object => !idSet.has(object.id))),
+    revert: artboards => updateObjects(artboards, artboardId, current => {
+      const restored = [...current];
+      removed.forEach(({ object, index }) => restored.splice(Math.min(index, restored.length), 0, object));
+      return restored;
+    }),
+  };
+};
+
+export interface ObjectChange {
+  id: string;
+  before: Partial<CanvasObject>;
+  after: Partial<CanvasObject>;
+}
+
+// Changes several objects as one step, e.g. moving or scaling a multi-selection;
+// `before` holds the previous values of the changed keys
+export const updateObjectsCommand = (artboardId: string, changes: ObjectChange[], label: string): HistoryCommand => {
+  const byId = new Map(changes.map(change => [change.id, change]));
+  const patch = (side: 'before' | 'after') => (artboards: Artboard[]) => updateObjects(artboards, artboardId, current =>
+    current.map(object => {
+      const change = byId.get(object.id);
+      return change ? { ...object, ...change[side] } as CanvasObject : object;
+    })
+  );
+  return { label, artboardId, apply: patch('after'), revert: patch('before') };
+};
+
+export const updateObjectCommand = (
+  artboardId: string,
+  id: string,
+  before: Partial<CanvasObject>,
+  after: Partial<CanvasObject>,
+  label: string
+): HistoryCommand => updateObjectsCommand(artboardId, [{ id, before, after }], label);
+
+// Changes the stacking order; `before` and `after` list every object id bottom to top
+export const reorderObjectsCommand = (artboardId: string, before: string[], after: string[], label: string): HistoryCommand => {
+  const arrange = (order: string[]) => (artboards: Artboard[]) => updateObjects(artboards, artboardId, current => {
+    const byId = new Map(current.map(object => [object.id, object]));
+    return order.map(id => byId.get(id)).filter((object): object is CanvasObject => !!object);
+  });
+  return { label, artboardId, apply: arrange(after), revert: arrange(before) };
+};
+
+// Swaps the whole object list of one page, e.g. when grouping rewrites several objects at once
+export const replaceObjectsCommand = (
+  artboardId: string,
+  before: CanvasObject[],
+  after: CanvasObject[],
+  label: string
+): HistoryCommand => ({
+  label,
+  artboardId,
+  apply: artboards => updateObjects(artboards, artboardId, () => after),
+  revert: artboards => updateObjects(artboards, artboardId, () => before),
+});
+
+// Replaces the ruler guides of one page
+export const updateGuidesCommand = (artboardId: string, before: Guide[], after: Guide[], label: string): HistoryCommand => {
+  const setGuides = (guides: Guide[]) => (artboards: Artboard[]) =>
+    artboards.map(artboard => artboard.id === artboardId ? { ...artboard, guides } : artboard);
+  return { label, artboardId, apply: setGuides(after), revert: setGuides(before) };
+};
+
+// Page-level changes (add, delete, reorder, resize) swap the whole artboard list
+export const replaceArtboardsCommand = (before: Artboard[], after: Artboard[], label: string, artboardId?: string): HistoryCommand => ({
+  label,
+  artboardId,
+  apply: () => after,
+  revert: () => before,
+});
+
+// Values of the given keys on `object`, used as the `before` side of an update
+export const pickAttrs = (object: CanvasObject, attrs: Partial<CanvasObject>): Partial<CanvasObject> => {
+  const picked: Record<string, unknown> = {};
+  Object.keys(attrs).forEach(key => {
+    picked[key] = (object as unknown as Record<string, unknown>)[key];
+  });
+  return picked as Partial<CanvasObject>;
+};
@@ -0,0 +1,227 @@
+import type { PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import { IDENTITY, Matrix, applyToPoint, multiply } from './matrix';
+import { ExtractedImage } from './types';
+
+// Placements smaller than this (in rendered pixels) are icons, rules or spacers
+const MIN_IMAGE_SIZE = 16;
+// Upper bound for the extracted bitmap's longest side
+const MAX_BITMAP_SIZE = 4096;
+
+interface PdfImageData {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+  bitmap?: ImageBitmap;
+}
+
+interface ImagePlacement {
+  // Object id of an image XObject, or the data of an inline image
+  image: string | PdfImageData;
+  // The part of the bitmap drawn, for inline images pdf.js packed into one bitmap
+  region?: { x: number; y: number; width: number; height: number };
+  // Maps the image's unit square into rendered page pixels
+  transform: Matrix;
+}
+
+// pdf.js ImageKind values
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+const RGBA_32BPP = 3;
+
+const toImageData = (img: PdfImageData): ImageData | null => {
+  const { width, height, kind, data } = img;
+  if (!data) return null;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  if (kind === RGBA_32BPP) {
+    rgba.set(data.subarray(0, rgba.length));
+  } else if (kind === RGB_24BPP) {
+    for (let src = 0, dest = 0; dest < rgba.length; src += 3, dest += 4) {
+      rgba[dest] = data[src];
+      rgba[dest + 1] = data[src + 1];
+      rgba[dest + 2] = data[src + 2];
+      rgba[dest + 3] = 255;
+    }
+  } else if (kind === GRAYSCALE_1BPP) {
+    // Rows are padded to whole bytes, a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const bit = data[row * rowBytes + (col >> 3)] & (128 >> (col & 7));
+        const dest = (row * width + col) * 4;
+        const value = bit ? 255 : 0;
+        rgba[dest] = value;
+        rgba[dest + 1] = value;
+        rgba[dest + 2] = value;
+        rgba[dest + 3] = 255;
+      }
+    }
+  } else {
+    return null;
+  }
+
+  return new ImageData(rgba, width, height);
+};
+
+const toDrawable = (img: PdfImageData): CanvasImageSource | null => {
+  if (img.bitmap) return img.bitmap;
+  const imageData = toImageData(img);
+  if (!imageData) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Walks the operator list tracking the current transformation matrix and
+// records where each image XObject and inline image is painted. Image masks are
+// stencils filled with the current colour rather than pictures, so they're skipped.
+const collectPlacements = async (page: PDFPageProxy, viewport: PageViewport): Promise<ImagePlacement[]> => {
+  const { OPS } = await import('pdfjs-dist');
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const placements: ImagePlacement[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = IDENTITY;
+
+  const toViewport = (m: Matrix) => multiply(m, viewport.transform as Matrix);
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+      case OPS.paintFormXObjectEnd:
+      case OPS.endGroup:
+        ctm = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.transform:
+        ctm = multiply(args as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (args[0]) ctm = multiply(args[0] as Matrix, ctm);
+        break;
+      case OPS.beginGroup:
+        stack.push(ctm);
+        if (args[0]?.matrix) ctm = multiply(args[0].matrix as Matrix, ctm);
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject:
+        placements.push({ image: args[0], transform: toViewport(ctm) });
+        break;
+      case OPS.paintImageXObjectRepeat: {
+        const [objId, scaleX, scaleY, positions] = args;
+        for (let p = 0; p < positions.length; p += 2) {
+          const local: Matrix = [scaleX, 0, 0, scaleY, positions[p], positions[p + 1]];
+          placements.push({ image: objId, transform: toViewport(multiply(local, ctm)) });
+        }
+        break;
+      }
+      case OPS.paintInlineImageXObjectGroup: {
+        // Consecutive small inline images, packed side by side into one bitmap
+        const [imgData, map] = args;
+        for (const entry of map) {
+          placements.push({
+            image: imgData,
+            region: { x: entry.x, y: entry.y, width: entry.w, height: entry.h },
+            transform: toViewport(multiply(entry.transform as Matrix, ctm)),
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return placements;
+};
+
+const getImageObject = (page: PDFPageProxy, image: string | PdfImageData): PdfImageData | null => {
+  if (typeof image !== 'string') return image;
+  const objs = image.startsWith('g_') ? page.commonObjs : page.objs;
+  if (!objs.has(image)) return null;
+  return objs.get(image) as PdfImageData | null;
+};
+
+// Extracts the images embedded in a page at their native resolution. Must run after
+// the page has been rendered so that pdf.js has resolved the image objects.
+export const extractPageImages = async (
+  page: PDFPageProxy,
+  viewport: PageViewport,
+  documentId: string,
+  pageNumber: number
+): Promise<ExtractedImage[]> => {
+  const images: ExtractedImage[] = [];
+  const seen = new Set<string>();
+  const placements = await collectPlacements(page, viewport);
+
+  placements.forEach(({ image, region, transform }, index) => {
+    try {
+      const img = getImageObject(page, image);
+      if (!img || !img.width || !img.height) return;
+      const { x: regionX, y: regionY, width: naturalWidth, height: naturalHeight } =
+        region ?? { x: 0, y: 0, width: img.width, height: img.height };
+
+      const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([u, v]) => applyToPoint(transform, u, v));
+      const xs = corners.map(c => c.x);
+      const ys = corners.map(c => c.y);
+      const left = Math.max(0, Math.min(...xs));
+      const top = Math.max(0, Math.min(...ys));
+      const right = Math.min(viewport.width, Math.max(...xs));
+      const bottom = Math.min(viewport.height, Math.max(...ys));
+      const width = right - left;
+      const height = bottom - top;
+      if (width < MIN_IMAGE_SIZE || height < MIN_IMAGE_SIZE) return;
+
+      // The same image drawn twice in the same spot (e.g. fill + stroke passes)
+      const objId = typeof image === 'string' ? image : `inline-${index}`;
+      const key = `${objId}:${Math.round(left)}:${Math.round(top)}:${Math.round(width)}:${Math.round(height)}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const drawable = toDrawable(img);
+      if (!drawable) return;
+
+      // Render at the image's own pixel density, keeping the orientation it has on the page
+      const [a, b, c, d] = transform;
+      const displayedArea = Math.abs(a * d - b * c);
+      let density = Math.sqrt((naturalWidth * naturalHeight) / displayedArea);
+      density = Math.min(density, MAX_BITMAP_SIZE / Math.max(width, height));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(width * density));
+      canvas.height = Math.max(1, Math.round(height * density));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      ctx.setTransform(
+        ...multiply(
+          multiply([1 / naturalWidth, 0, 0, -1 / naturalHeight, 0, 1], transform),
+          [density, 0, 0, density, -left * density, -top * density]
+        )
+      );
+      ctx.drawImage(drawable, regionX, regionY, naturalWidth, naturalHeight, 0, 0, naturalWidth, naturalHeight);
+
+      images.push({
+        id: `extracted-${documentId}-${pageNumber}-${index}`,
+        documentId,
+        src: canvas.toDataURL(),
+        x: Math.round(left),
+        y: Math.round(top),
+        width: Math.round(width),
+        height: Math.round(height),
+        naturalWidth,
+        naturalHeight,
+        pageNumber,
+        selected: false,
+      });
+    } catch (error) {
+      console.error('Error extracting image from page:', error);
+    }
+  });
+
+  return images;
+};
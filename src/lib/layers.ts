@@ -0,0 +1,42 @@
+import { SHAPE_TOOLS } from './shapes';
+import { FREEHAND_TOOLS } from './freehand';
+import { CanvasObject } from './types';
+
+// Name shown in the layers panel when the user hasn't given the object one
+export const objectDisplayName = (object: CanvasObject): string => {
+  if (object.name) return object.name;
+  switch (object.type) {
+    case 'text':
+      return object.text.split('\n')[0].slice(0, 30) || 'Text';
+    case 'shape':
+      return SHAPE_TOOLS.find(tool => tool.value === object.kind)?.label ?? 'Shape';
+    case 'line':
+      return object.arrowStart || object.arrowEnd ? 'Arrow' : 'Line';
+    case 'freehand':
+      return FREEHAND_TOOLS.find(tool => tool.value === object.tool)?.label ?? 'Ink';
+    case 'group':
+      return `Group of ${object.children.length}`;
+    default:
+      return object.source ? `PDF page ${object.source.pageNumber}` : 'Image';
+  }
+};
+
+// Stacking helpers work on id lists ordered bottom to top, the same order as
+// `Artboard.objects`, and keep the relative order of the moved ids
+
+export const bringToFront = (order: string[], ids: string[]) => [
+  ...order.filter(id => !ids.includes(id)),
+  ...order.filter(id => ids.includes(id)),
+];
+
+export const sendToBack = (order: string[], ids: string[]) => [
+  ...order.filter(id => ids.includes(id)),
+  ...order.filter(id => !ids.includes(id)),
+];
+
+export const moveLayer = (order: string[], fromIndex: number, toIndex: number) => {
+  const next = [...order];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+};
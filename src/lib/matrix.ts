@@ -0,0 +1,31 @@
+// 2D affine matrix in PDF order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Returns the matrix that applies `first` and then `second`
+export const multiply = (first: Matrix, second: Matrix): Matrix => {
+  const [a1, b1, c1, d1, e1, f1] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ];
+};
+
+// Same composition order as a Konva node: translate, rotate (degrees, clockwise on screen), scale
+export const nodeMatrix = (x: number, y: number, rotation: number, scaleX = 1, scaleY = 1): Matrix => {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [scaleX * cos, scaleX * sin, -scaleY * sin, scaleY * cos, x, y];
+};
+
+export const applyToPoint = (m: Matrix, x: number, y: number) => ({
+  x: m[0] * x + m[2] * y + m[4],
+  y: m[1] * x + m[3] * y + m[5],
+});
@@ -0,0 +1,55 @@
+import { PDFDocument, PageSizes, degrees } from 'pdf-lib';
+import { PageInfo, SourceDocument } from './types';
+
+// One page of the organized output: a page from an uploaded PDF, or a blank
+// page when `source` is null. `rotation` is added to the page's own rotation.
+export interface OrganizerPage {
+  id: string;
+  source: { documentId: string; pageNumber: number } | null;
+  rotation: number;
+}
+
+export const createOrganizerPage = (page: PageInfo | null): OrganizerPage => ({
+  id: `organizer-${Date.now()}-${Math.random()}`,
+  source: page ? { documentId: page.documentId, pageNumber: page.pageNumber } : null,
+  rotation: 0,
+});
+
+export const rotateOrganizerPage = (page: OrganizerPage, by: number): OrganizerPage => ({
+  ...page,
+  rotation: (((page.rotation + by) % 360) + 360) % 360,
+});
+
+// Writes the pages in order. Source pages are copied whole, so their text and
+// vectors are kept; blank pages take the size of the page before them (A4 for
+// a leading blank page).
+export const buildOrganizedPdf = async (
+  pages: OrganizerPage[],
+  sources: Record<string, SourceDocument>
+): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const loadedSources = new Map<string, Promise<PDFDocument>>();
+  let previousSize: [number, number] = PageSizes.A4;
+
+  for (const entry of pages) {
+    if (!entry.source) {
+      pdfDoc.addPage(previousSize).setRotation(degrees(entry.rotation));
+      continue;
+    }
+    const { documentId, pageNumber } = entry.source;
+    const source = sources[documentId];
+    if (!source) {
+      throw new Error(`Source document ${documentId} is not loaded`);
+    }
+    if (!loadedSources.has(documentId)) {
+      loadedSources.set(documentId, PDFDocument.load(source.bytes, { ignoreEncryption: true }));
+    }
+    const [copied] = await pdfDoc.copyPages(await loadedSources.get(documentId)!, [pageNumber - 1]);
+    const page = pdfDoc.addPage(copied);
+    page.setRotation(degrees((page.getRotation().angle + entry.rotation) % 360));
+    const { width, height } = page.getSize();
+    previousSize = [width, height];
+  }
+
+  return pdfDoc.save();
+};
@@ -0,0 +1,105 @@
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+
+// Width of page previews in the pickers, in CSS pixels
+export const THUMBNAIL_WIDTH = 160;
+
+// Key for per-page caches; page numbers alone clash between documents
+export const pageKey = (page: { documentId: string; pageNumber: number }) => `${page.documentId}:${page.pageNumber}`;
+
+export interface RenderedPage {
+  src: string;
+  // Size of the raster in pixels
+  width: number;
+  height: number;
+}
+
+export const renderPageToCanvas = async (page: PDFPageProxy, viewport: PageViewport) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvas, viewport }).promise;
+  return canvas;
+};
+
+// Quick low resolution preview; JPEG keeps hundreds of them small in memory
+export const renderThumbnail = async (pdf: PDFDocumentProxy, pageNumber: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const scale = THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width;
+  const canvas = await renderPageToCanvas(page, page.getViewport({ scale }));
+  page.cleanup();
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+export interface LruCache<V> {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+  delete: (key: string) => void;
+  keys: () => string[];
+  clear: () => void;
+  setCapacity: (capacity: number) => void;
+}
+
+// Keeps the `capacity` most recently used entries. Map iteration follows
+// insertion order, so re-inserting on access moves an entry to the back.
+export const createLruCache = <V>(capacity: number): LruCache<V> => {
+  const entries = new Map<string, V>();
+  const evict = () => {
+    while (entries.size > capacity) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+  return {
+    get: (key) => {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      evict();
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    keys: () => [...entries.keys()],
+    clear: () => entries.clear(),
+    setCapacity: (nextCapacity) => {
+      capacity = nextCapacity;
+      evict();
+    },
+  };
+};
+
+// A placed page re-rendered from its source PDF at `scale`, sharper than its preview raster
+export interface PageRaster {
+  canvas: HTMLCanvasElement;
+  scale: number;
+}
+
+// Some browsers refuse to draw canvases larger than this
+const MAX_RASTER_PIXELS = 4096 * 4096;
+// Scales go up in steps so small zoom changes reuse a cached raster
+const RASTER_SCALE_STEP = 0.5;
+
+// pdf.js scale that gives a device pixel per raster pixel when a region of
+// `regionWidth` × `regionHeight` points is shown `displayWidth` × `displayHeight`
+// device pixels large. Page sizes are in points and cap the raster size.
+export const sharpRenderScale = (
+  displayWidth: number,
+  displayHeight: number,
+  regionWidth: number,
+  regionHeight: number,
+  pageWidth: number,
+  pageHeight: number
+) => {
+  const needed = Math.max(displayWidth / regionWidth, displayHeight / regionHeight);
+  const largest = Math.sqrt(MAX_RASTER_PIXELS / (pageWidth * pageHeight));
+  return Math.min(
+    Math.ceil(needed / RASTER_SCALE_STEP) * RASTER_SCALE_STEP,
+    Math.floor(largest / RASTER_SCALE_STEP) * RASTER_SCALE_STEP
+  );
+};
@@ -0,0 +1,447 @@
+import {
+  BlendMode,
+  PDFDocument,
+  PDFEmbeddedPage,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  PageSizes,
+  StandardFonts,
+  clip,
+  concatTransformationMatrix,
+  drawObject,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+} from 'pdf-lib';
+import { Matrix, multiply, nodeMatrix } from './matrix';
+import { getUncroppedBox } from './crop';
+import { arrowHeadPath, arrowHeadSize, dashArray, lineEndpoints, shapePath } from './shapes';
+import { freehandPath } from './freehand';
+import {
+  Artboard,
+  CanvasFreehand,
+  CanvasImage,
+  CanvasLine,
+  CanvasObject,
+  CanvasShape,
+  CanvasText,
+  PdfPageRef,
+  SourceDocument,
+} from './types';
+import { PT_PER_PX } from './units';
+
+export type ExportPageSize = 'artboard' | 'A4' | 'A3' | 'Letter' | 'Legal';
+export type PageOrientation = 'portrait' | 'landscape';
+
+export const EXPORT_PAGE_SIZES: ExportPageSize[] = ['artboard', 'A4', 'A3', 'Letter', 'Legal'];
+
+export interface PdfExportOptions {
+  pageSize: ExportPageSize;
+  orientation: PageOrientation;
+}
+
+// An object left out of the export because it could not be drawn, or drawn
+// only in part
+export interface PdfExportFailure {
+  artboardName: string;
+  objectType: CanvasObject['type'];
+  message: string;
+}
+
+export interface PdfExportResult {
+  bytes: Uint8Array;
+  failures: PdfExportFailure[];
+}
+
+// Adds a page for the artboard and returns the matrix from artboard space into it.
+// At artboard size the page is the trim size plus bleed; standard sizes fit the
+// artboard onto the page, centered.
+const addArtboardPage = (pdfDoc: PDFDocument, artboard: Artboard, { pageSize, orientation }: PdfExportOptions) => {
+  if (pageSize === 'artboard') {
+    const bleed = artboard.bleed * PT_PER_PX;
+    const trimWidth = artboard.width * PT_PER_PX;
+    const trimHeight = artboard.height * PT_PER_PX;
+    const page = pdfDoc.addPage([trimWidth + bleed * 2, trimHeight + bleed * 2]);
+    page.setBleedBox(0, 0, trimWidth + bleed * 2, trimHeight + bleed * 2);
+    page.setTrimBox(bleed, bleed, trimWidth, trimHeight);
+    // Artboard space is y-down, PDF space is y-up
+    const artboardToPage: Matrix = [PT_PER_PX, 0, 0, -PT_PER_PX, bleed, trimHeight + bleed];
+    return { page, artboardToPage };
+  }
+
+  const [sizeWidth, sizeHeight] = PageSizes[pageSize];
+  const [pageWidth, pageHeight] = orientation === 'landscape' ? [sizeHeight, sizeWidth] : [sizeWidth, sizeHeight];
+  const page = pdfDoc.addPage([pageWidth, pageHeight]);
+  const scale = Math.min(pageWidth / artboard.width, pageHeight / artboard.height);
+  const offsetX = (pageWidth - artboard.width * scale) / 2;
+  const offsetY = (pageHeight - artboard.height * scale) / 2;
+  const artboardToPage: Matrix = [scale, 0, 0, -scale, offsetX, pageHeight - offsetY];
+  return { page, artboardToPage };
+};
+
+const rasterizeToPng = (src: string): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas.getContext('2d')?.drawImage(img, 0, 0);
+      canvas.toBlob(blob => {
+        if (blob) {
+          blob.arrayBuffer().then(resolve, reject);
+        } else {
+          reject(new Error('Could not rasterize image'));
+        }
+      }, 'image/png');
+    };
+    img.onerror = () => reject(new Error(`Could not load image ${src.slice(0, 40)}`));
+    img.src = src;
+  });
+};
+
+const embedImageSource = async (pdfDoc: PDFDocument, src: string): Promise<PDFImage> => {
+  if (src.startsWith('data:image/png')) {
+    return pdfDoc.embedPng(await fetch(src).then(res => res.arrayBuffer()));
+  }
+  if (src.startsWith('data:image/jpeg') || src.startsWith('data:image/jpg')) {
+    return pdfDoc.embedJpg(await fetch(src).then(res => res.arrayBuffer()));
+  }
+  // Anything pdf-lib can't embed directly goes through a canvas first
+  return pdfDoc.embedPng(await rasterizeToPng(src));
+};
+
+// Draws an XObject whose unit space is mapped into the image's local box by `contentMatrix`,
+// clipped to the visible (cropped) area
+const drawClippedObject = (
+  page: PDFPage,
+  name: ReturnType<PDFPage['node']['newXObject']>,
+  localToPage: Matrix,
+  width: number,
+  height: number,
+  contentMatrix: Matrix
+) => {
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(...localToPage),
+    rectangle(0, 0, width, height),
+    clip(),
+    endPath(),
+    concatTransformationMatrix(...contentMatrix),
+    drawObject(name),
+    popGraphicsState()
+  );
+};
+
+interface EmbeddedSourcePage {
+  page: PDFEmbeddedPage;
+  // Page /Rotate, normalized to 0, 90, 180 or 270
+  rotation: number;
+}
+
+// Maps the embedded page's form space (unrotated, y-up) onto its displayed
+// orientation in a y-down box of the displayed width/height, the way pdf.js renders it
+const pageDisplayMatrix = (width: number, height: number, rotation: number): Matrix => {
+  const flip: Matrix = [1, 0, 0, -1, 0, height];
+  switch (rotation) {
+    case 90:
+      return multiply(flip, [0, 1, -1, 0, height, 0]);
+    case 180:
+      return multiply(flip, [-1, 0, 0, -1, width, height]);
+    case 270:
+      return multiply(flip, [0, -1, 1, 0, 0, width]);
+    default:
+      return flip;
+  }
+};
+
+// Standard PDF font closest to a font family, so exported text stays real text
+const standardFontFor = (fontFamily: string, bold: boolean) => {
+  const family = fontFamily.toLowerCase();
+  if (/times|georgia|serif/.test(family) && !family.includes('sans')) {
+    return bold ? StandardFonts.TimesRomanBold : StandardFonts.TimesRoman;
+  }
+  if (/courier|mono/.test(family)) {
+    return bold ? StandardFonts.CourierBold : StandardFonts.Courier;
+  }
+  return bold ? StandardFonts.HelveticaBold : StandardFonts.Helvetica;
+};
+
+// Standard fonts only cover WinAnsi; anything else is replaced with '?'.
+// Returns the text and the distinct characters that were replaced.
+const toEncodable = (font: PDFFont, text: string) => {
+  const replaced = new Set<string>();
+  const encodable = Array.from(text).map(char => {
+    if (char === '\n') return char;
+    try {
+      font.encodeText(char);
+      return char;
+    } catch {
+      replaced.add(char);
+      return '?';
+    }
+  }).join('');
+  return { text: encodable, replaced: [...replaced] };
+};
+
+// Breaks text into lines the way Konva wraps it: on newlines, then between
+// words, and inside words that are wider than the box on their own
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  const widthOf = (value: string) => font.widthOfTextAtSize(value, size);
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (widthOf(candidate) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of Array.from(word)) {
+        if (line && widthOf(line + char) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const parseHexColor = (hex: string) => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  const value = match ? parseInt(match[1], 16) : 0;
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+// Konva draws each line with a middle baseline at half the line height; the
+// alphabetic baseline sits roughly this far (in ems) below that
+const MIDDLE_TO_BASELINE = 0.3;
+
+// Writes one PDF page per artboard. Objects that fail to draw are skipped and
+// reported in `failures`.
+export const exportArtboardsToPdf = async (
+  artboards: Artboard[],
+  sources: Record<string, SourceDocument>,
+  options: PdfExportOptions
+): Promise<PdfExportResult> => {
+  const pdfDoc = await PDFDocument.create();
+  const embeddedImages = new Map<string, PDFImage>();
+  const embeddedPages = new Map<string, EmbeddedSourcePage>();
+  const loadedSources = new Map<string, Promise<PDFDocument>>();
+  const embeddedFonts = new Map<string, PDFFont>();
+
+  const embedSourcePage = async (ref: PdfPageRef): Promise<EmbeddedSourcePage> => {
+    const key = `${ref.documentId}:${ref.pageNumber}`;
+    const cached = embeddedPages.get(key);
+    if (cached) return cached;
+
+    const source = sources[ref.documentId];
+    if (!source) {
+      throw new Error(`Source document ${ref.documentId} is not loaded`);
+    }
+    if (!loadedSources.has(ref.documentId)) {
+      loadedSources.set(ref.documentId, PDFDocument.load(source.bytes, { ignoreEncryption: true }));
+    }
+    const sourceDoc = await loadedSources.get(ref.documentId)!;
+    const sourcePage = sourceDoc.getPage(ref.pageNumber - 1);
+    const { x, y, width, height } = sourcePage.getCropBox();
+    const embedded = {
+      page: await pdfDoc.embedPage(sourcePage, { left: x, bottom: y, right: x + width, top: y + height }),
+      rotation: ((sourcePage.getRotation().angle % 360) + 360) % 360,
+    };
+    embeddedPages.set(key, embedded);
+    return embedded;
+  };
+
+  const drawRasterImage = async (page: PDFPage, image: CanvasImage, localToPage: Matrix) => {
+    let pdfImage = embeddedImages.get(image.src);
+    if (!pdfImage) {
+      pdfImage = await embedImageSource(pdfDoc, image.src);
+      embeddedImages.set(image.src, pdfImage);
+    }
+    const placement = getUncroppedBox(image, pdfImage.width, pdfImage.height);
+    // Image XObjects occupy the unit square with the origin at the bottom left
+    const contentMatrix: Matrix = [
+      placement.width, 0, 0, -placement.height, placement.x, placement.y + placement.height,
+    ];
+    const name = page.node.newXObject('Image', pdfImage.ref);
+    drawClippedObject(page, name, localToPage, image.width, image.height, contentMatrix);
+  };
+
+  // Returns the characters the font could not encode
+  const drawText = async (page: PDFPage, text: CanvasText, localToPage: Matrix) => {
+    const fontName = standardFontFor(text.fontFamily, text.fontWeight === 'bold');
+    let font = embeddedFonts.get(fontName);
+    if (!font) {
+      font = await pdfDoc.embedFont(fontName);
+      embeddedFonts.set(fontName, font);
+    }
+    const lineHeight = text.fontSize * text.lineHeight;
+    const color = parseHexColor(text.fill);
+    const encodable = toEncodable(font, text.text);
+    const lines = wrapText(encodable.text, font, text.fontSize, text.width);
+    lines.forEach((line, index) => {
+      const lineWidth = font.widthOfTextAtSize(line, text.fontSize);
+      const offsetX = text.align === 'center'
+        ? (text.width - lineWidth) / 2
+        : text.align === 'right' ? text.width - lineWidth : 0;
+      const baseline = index * lineHeight + lineHeight / 2 + text.fontSize * MIDDLE_TO_BASELINE;
+      // Text space is y-up, the object's local space is y-down
+      page.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(...multiply([1, 0, 0, -1, offsetX, baseline], localToPage))
+      );
+      page.drawText(line, { x: 0, y: 0, font, size: text.fontSize, color });
+      page.pushOperators(popGraphicsState());
+    });
+    return encodable.replaced;
+  };
+
+  // Shapes, lines and freehand strokes are drawn as vector paths in the object's local space
+  const drawVector = (page: PDFPage, object: CanvasShape | CanvasLine | CanvasFreehand, localToPage: Matrix) => {
+    // drawSvgPath flips y itself, so undo the flip already in localToPage
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(...multiply([1, 0, 0, -1, 0, 0], localToPage))
+    );
+    if (object.type === 'freehand') {
+      page.drawSvgPath(freehandPath(object), {
+        x: 0,
+        y: 0,
+        color: parseHexColor(object.stroke),
+        opacity: object.opacity,
+        // Matches the multiply blend on the canvas so highlighted text stays dark
+        blendMode: object.tool === 'highlighter' ? BlendMode.Multiply : undefined,
+      });
+      page.pushOperators(popGraphicsState());
+      return;
+    }
+    const stroke = {
+      borderColor: parseHexColor(object.stroke),
+      borderWidth: object.strokeWidth,
+      borderDashArray: dashArray(object.dash, object.strokeWidth),
+      borderOpacity: object.opacity,
+    };
+    if (object.type === 'shape') {
+      page.drawSvgPath(shapePath(object), {
+        x: 0,
+        y: 0,
+        ...(object.strokeWidth > 0 ? stroke : {}),
+        color: object.fill ? parseHexColor(object.fill) : undefined,
+        opacity: object.opacity,
+      });
+    } else {
+      const [start, end] = lineEndpoints({ ...object, x: 0, y: 0 });
+      page.drawSvgPath(`M ${start.x} ${start.y} L ${end.x} ${end.y}`, { x: 0, y: 0, ...stroke });
+      const size = arrowHeadSize(object.strokeWidth);
+      const heads = [object.arrowEnd && arrowHeadPath(start, end, size), object.arrowStart && arrowHeadPath(end, start, size)];
+      heads.forEach(head => {
+        if (head) {
+          page.drawSvgPath(head, { x: 0, y: 0, color: stroke.borderColor, opacity: object.opacity });
+        }
+      });
+    }
+    page.pushOperators(popGraphicsState());
+  };
+
+  const drawSourcePage = async (page: PDFPage, image: CanvasImage, ref: PdfPageRef, localToPage: Matrix) => {
+    const { page: embedded, rotation } = await embedSourcePage(ref);
+    const rotated = rotation === 90 || rotation === 270;
+    const displayWidth = rotated ? embedded.height : embedded.width;
+    const displayHeight = rotated ? embedded.width : embedded.height;
+    // Crop values are in pixels of the preview raster
+    const placement = getUncroppedBox(image, displayWidth * ref.renderScale, displayHeight * ref.renderScale);
+    const contentMatrix = multiply(
+      pageDisplayMatrix(embedded.width, embedded.height, rotation),
+      [placement.width / displayWidth, 0, 0, placement.height / displayHeight, placement.x, placement.y]
+    );
+    const name = page.node.newXObject('EmbeddedPdfPage', embedded.ref);
+    drawClippedObject(page, name, localToPage, image.width, image.height, contentMatrix);
+  };
+
+  const failures: PdfExportFailure[] = [];
+  const recordFailure = (artboard: Artboard, object: CanvasObject, error: unknown) => {
+    failures.push({
+      artboardName: artboard.name,
+      objectType: object.type,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  };
+
+  // Draws an object with `parentToPage` mapping its parent's space (the artboard
+  // or an enclosing group) to the PDF page of `artboard`
+  const drawObject = async (
+    page: PDFPage,
+    artboard: Artboard,
+    object: CanvasObject,
+    parentToPage: Matrix
+  ): Promise<void> => {
+    if (object.hidden) return;
+    const localToPage = multiply(
+      nodeMatrix(object.x, object.y, object.rotation, object.scaleX, object.scaleY),
+      parentToPage
+    );
+    if (object.type === 'group') {
+      for (const child of object.children) {
+        await drawObject(page, artboard, child, localToPage);
+      }
+      return;
+    }
+    if (object.type === 'text') {
+      try {
+        const replaced = await drawText(page, object, localToPage);
+        if (replaced.length > 0) {
+          recordFailure(artboard, object, new Error(`characters the PDF fonts cannot show were replaced with '?': ${replaced.join(' ')}`));
+        }
+      } catch (error) {
+        console.error('Error exporting text to PDF:', error);
+        recordFailure(artboard, object, error);
+      }
+      return;
+    }
+    if (object.type === 'shape' || object.type === 'line' || object.type === 'freehand') {
+      try {
+        drawVector(page, object, localToPage);
+      } catch (error) {
+        console.error('Error exporting shape to PDF:', error);
+        recordFailure(artboard, object, error);
+      }
+      return;
+    }
+
+    const image = object;
+    try {
+      if (image.source) {
+        try {
+          await drawSourcePage(page, image, image.source, localToPage);
+          return;
+        } catch (error) {
+          // Fall back to the preview raster, e.g. for PDFs pdf-lib can't parse
+          console.error('Error embedding source page, using raster instead:', error);
+        }
+      }
+      await drawRasterImage(page, image, localToPage);
+    } catch (error) {
+      console.error('Error exporting image to PDF:', error);
+      recordFailure(artboard, object, error);
+    }
+  };
+
+  for (const artboard of artboards) {
+    const { page, artboardToPage } = addArtboardPage(pdfDoc, artboard, options);
+    for (const object of artboard.objects) {
+      await drawObject(page, artboard, object, artboardToPage);
+    }
+  }
+
+  return { bytes: await pdfDoc.save(), failures };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { chunkEvery, numberedParts, partFileName, splitBefore } from './pdfSplit';
+
+const pages = [1, 2, 3, 4, 5];
+
+describe('chunkEvery', () => {
+  it('splits into chunks of the given size with a shorter last chunk', () => {
+    expect(chunkEvery(pages, 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('keeps everything in one chunk when the size exceeds the page count', () => {
+    expect(chunkEvery(pages, 10)).toEqual([pages]);
+  });
+
+  it('treats sizes below one as one', () => {
+    expect(chunkEvery(pages, 0)).toEqual([[1], [2], [3], [4], [5]]);
+  });
+
+  it('returns no chunks for no pages', () => {
+    expect(chunkEvery([], 3)).toEqual([]);
+  });
+});
+
+describe('splitBefore', () => {
+  it('starts a new chunk at each index', () => {
+    expect(splitBefore(pages, [2, 4])).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('sorts indexes and ignores duplicates', () => {
+    expect(splitBefore(pages, [4, 2, 4])).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('ignores a boundary at 0 or past the end', () => {
+    expect(splitBefore(pages, [0, 3, 5, 9])).toEqual([[1, 2, 3], [4, 5]]);
+  });
+
+  it('returns the whole list without boundaries', () => {
+    expect(splitBefore(pages, [])).toEqual([pages]);
+  });
+});
+
+describe('numberedParts', () => {
+  it('labels chunks from part-1', () => {
+    expect(numberedParts([[1], [2, 3]])).toEqual([
+      { label: 'part-1', pages: [1] },
+      { label: 'part-2', pages: [2, 3] },
+    ]);
+  });
+});
+
+describe('partFileName', () => {
+  it('replaces characters file systems reject', () => {
+    expect(partFileName('report', 'Chapter 1: Intro/Overview')).toBe('report-Chapter 1_ Intro_Overview.pdf');
+  });
+});
@@ -0,0 +1,50 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Splitting works on any ordered page list; the caller turns each chunk into a
+// PDF. Indexes are positions in that list.
+
+export const chunkEvery = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += Math.max(1, size)) {
+    chunks.push(items.slice(start, start + Math.max(1, size)));
+  }
+  return chunks;
+};
+
+// Starts a new chunk at each of `starts`; out of range and duplicate indexes are ignored
+export const splitBefore = <T>(items: T[], starts: number[]): T[][] => {
+  const cuts = [...new Set(starts)].filter(index => index > 0 && index < items.length).sort((a, b) => a - b);
+  return [0, ...cuts].map((start, i) => items.slice(start, cuts[i] ?? items.length));
+};
+
+// Labels chunks part-1, part-2, … for their file names
+export const numberedParts = <T>(chunks: T[][]) =>
+  chunks.map((chunk, index) => ({ label: `part-${index + 1}`, pages: chunk }));
+
+export interface Bookmark {
+  title: string;
+  pageNumber: number;
+}
+
+// Top-level outline entries that point at a page, in page order. Entries with
+// external links or broken destinations are skipped.
+export const getTopLevelBookmarks = async (pdf: PDFDocumentProxy): Promise<Bookmark[]> => {
+  const outline = (await pdf.getOutline()) ?? [];
+  const bookmarks: Bookmark[] = [];
+  for (const item of outline) {
+    try {
+      const destination = typeof item.dest === 'string' ? await pdf.getDestination(item.dest) : item.dest;
+      const target = destination?.[0];
+      if (target === undefined || target === null) continue;
+      const pageIndex = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+      bookmarks.push({ title: item.title, pageNumber: pageIndex + 1 });
+    } catch (error) {
+      console.error('Error resolving bookmark:', error);
+    }
+  }
+  return bookmarks.sort((a, b) => a.pageNumber - b.pageNumber);
+};
+
+// File name for a split part, without characters file systems reject
+export const partFileName = (base: string, label: string) =>
+  `${base}-${label}`.replace(/[\\/:*?"<>|]+/g, '_').slice(0, 120) + '.pdf';
@@ -0,0 +1,163 @@
+import { Artboard, CanvasImage, CanvasObject, Guide, SourceDocument } from './types';
+import { mapObjectsDeep } from './groups';
+
+export const PROJECT_FORMAT = 'pdf-canvas-project';
+// 1: artboards held `images` only. 2: `objects` with a `type`, adding text.
+// 3: shape and line objects. 4: freehand objects. 5: group objects with nested
+// `children`. 6: artboard `guides`.
+export const PROJECT_VERSION = 6;
+export const PROJECT_EXTENSION = '.pdfcanvas';
+
+// Identifies a page of a source document, e.g. an entry in the bottom bar
+export interface ProjectPageRef {
+  documentId: string;
+  pageNumber: number;
+}
+
+// Everything needed to reopen a layout elsewhere
+export interface Project {
+  artboards: Artboard[];
+  activeArtboardId: string;
+  sources: SourceDocument[];
+  selectedPages: ProjectPageRef[];
+}
+
+// On-disk shape. Bitmaps are stored once in `assets` and referenced from
+// images by key; source PDFs are stored base64 encoded.
+interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  activeArtboardId: string;
+  artboards: LegacyArtboard[];
+  assets: Record<string, string>;
+  sources: { id: string; name: string; data: string }[];
+  selectedPages: ProjectPageRef[];
+}
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked so large PDFs don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+type LegacyArtboard = Omit<Artboard, 'objects' | 'guides'> & {
+  objects?: CanvasObject[];
+  guides?: Guide[];
+  images?: Omit<CanvasImage, 'type'>[];
+};
+
+// Each step brings an artboard saved by the previous version up to `version`,
+// leaving artboards that are already up to date unchanged
+const ARTBOARD_UPGRADES: { version: number; upgrade: (artboard: LegacyArtboard) => LegacyArtboard }[] = [
+  {
+    version: 2,
+    upgrade: ({ images, ...artboard }) => ({
+      ...artboard,
+      objects: artboard.objects ?? (images ?? []).map(image => ({ ...image, type: 'image' as const })),
+    }),
+  },
+  // Shapes and lines are new object types; older files have none to convert
+  { version: 3, upgrade: artboard => artboard },
+  // Freehand strokes are a new object type; older files have none to convert
+  { version: 4, upgrade: artboard => artboard },
+  // Groups are a new object type; older files have no nesting to convert
+  { version: 5, upgrade: artboard => artboard },
+  { version: 6, upgrade: artboard => ({ ...artboard, guides: artboard.guides ?? [] }) },
+];
+
+// Brings artboards saved by `version` up to date. Stored sessions carry no
+// version, so they go through every step.
+export const upgradeArtboards = (artboards: LegacyArtboard[], version = 1): Artboard[] =>
+  artboards.map(artboard => {
+    const upgraded = ARTBOARD_UPGRADES
+      .filter(step => step.version > version)
+      .reduce((current, step) => step.upgrade(current), artboard);
+    return { ...upgraded, objects: upgraded.objects ?? [], guides: upgraded.guides ?? [] };
+  });
+
+export const isProjectFile = (file: File) => file.name.toLowerCase().endsWith(PROJECT_EXTENSION);
+
+export const serializeProject = (project: Project): Blob => {
+  const assetKeys = new Map<string, string>();
+  const assets: Record<string, string> = {};
+  const assetKey = (src: string) => {
+    let key = assetKeys.get(src);
+    if (!key) {
+      key = `asset-${assetKeys.size + 1}`;
+      assetKeys.set(src, key);
+      assets[key] = src;
+    }
+    return key;
+  };
+
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    activeArtboardId: project.activeArtboardId,
+    artboards: project.artboards.map(artboard => ({
+      ...artboard,
+      objects: mapObjectsDeep(artboard.objects, object =>
+        object.type === 'image' ? { ...object, src: assetKey(object.src) } : object
+      ),
+    })),
+    assets,
+    sources: project.sources.map(source => ({ id: source.id, name: source.name, data: toBase64(source.bytes) })),
+    selectedPages: project.selectedPages,
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+// Throws with a user-facing message when the file isn't a project this version can open
+export const parseProject = (text: string): Project => {
+  let file: ProjectFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not a valid project');
+  }
+  if (!file || file.format !== PROJECT_FORMAT) {
+    throw new Error('The file is not a valid project');
+  }
+  if (typeof file.version !== 'number' || file.version > PROJECT_VERSION) {
+    throw new Error('The project was saved by a newer version of the editor');
+  }
+  if (!Array.isArray(file.artboards) || file.artboards.length === 0) {
+    throw new Error('The project has no pages');
+  }
+
+  const assets = file.assets ?? {};
+  const artboards = upgradeArtboards(file.artboards, file.version).map(artboard => ({
+    ...artboard,
+    objects: mapObjectsDeep(artboard.objects, object => {
+      if (object.type !== 'image') return object;
+      const src = assets[object.src];
+      if (!src) throw new Error(`The project is missing the image for ${object.id}`);
+      return { ...object, src };
+    }),
+  }));
+  const activeArtboardId = artboards.some(artboard => artboard.id === file.activeArtboardId)
+    ? file.activeArtboardId
+    : artboards[0].id;
+
+  return {
+    artboards,
+    activeArtboardId,
+    sources: (file.sources ?? []).map(source => ({ id: source.id, name: source.name, bytes: fromBase64(source.data) })),
+    selectedPages: file.selectedPages ?? [],
+  };
+};
@@ -0,0 +1,194 @@
+import { Project, upgradeArtboards } from './project';
+import { ExtractedImage, SourceDocument } from './types';
+
+// Autosaved editing sessions, kept in IndexedDB so a crash or reload doesn't lose work.
+// Source PDFs are stored once in their own store, keyed by id, and shared between
+// sessions; each edit only rewrites the session's layout and image tray.
+
+const DB_NAME = 'pdf-canvas-editor';
+// 1: sessions held their source PDFs inline. 2: PDFs moved to the documents store.
+const DB_VERSION = 2;
+const SESSIONS = 'sessions';
+const DOCUMENTS = 'documents';
+
+export interface SessionInfo {
+  id: string;
+  name: string;
+  updatedAt: number;
+  pageCount: number;
+  objectCount: number;
+}
+
+// A project whose sources are referenced by id rather than held inline
+type StoredProject = Omit<Project, 'sources'> & { sourceIds: string[] };
+
+interface SessionRecord extends SessionInfo {
+  project: StoredProject;
+  extractedImages: ExtractedImage[];
+}
+
+// Sessions written before the documents store existed
+type LegacySessionRecord = SessionInfo & { project: Project };
+
+export interface StoredSession extends SessionInfo {
+  project: Project;
+  extractedImages: ExtractedImage[];
+}
+
+// Moves the PDFs held inline by version 1 sessions into the documents store
+const moveSourcesToDocuments = (transaction: IDBTransaction) => {
+  const documents = transaction.objectStore(DOCUMENTS);
+  const cursorRequest = transaction.objectStore(SESSIONS).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { project: { sources, ...project }, ...info } = cursor.value as LegacySessionRecord;
+    sources.forEach(source => documents.put(source));
+    const record: SessionRecord = {
+      ...info,
+      project: { ...project, sourceIds: sources.map(source => source.id) },
+      extractedImages: [],
+    };
+    cursor.update(record);
+    cursor.continue();
+  };
+};
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = event => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SESSIONS)) {
+      db.createObjectStore(SESSIONS, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(DOCUMENTS)) {
+      db.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+      if (event.oldVersion > 0 && request.transaction) moveSourcesToDocuments(request.transaction);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs `action` in one transaction over `stores` and resolves with what its
+// returned getter reads once the transaction commits; a getter that throws rejects
+const run = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => () => T
+) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(stores, mode);
+      const result = action(transaction);
+      transaction.oncomplete = () => {
+        try {
+          resolve(result());
+        } catch (error) {
+          reject(error);
+        }
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Deletes stored PDFs that no remaining session refers to
+const pruneDocuments = (transaction: IDBTransaction) => {
+  const documents = transaction.objectStore(DOCUMENTS);
+  const sessionsRequest = transaction.objectStore(SESSIONS).getAll();
+  sessionsRequest.onsuccess = () => {
+    const used = new Set((sessionsRequest.result as SessionRecord[]).flatMap(record => record.project.sourceIds));
+    const keysRequest = documents.getAllKeys();
+    keysRequest.onsuccess = () => {
+      keysRequest.result.filter(key => !used.has(String(key))).forEach(key => documents.delete(key));
+    };
+  };
+};
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random()}`;
+
+// PDFs are only written the first time a session refers to them
+export const saveSession = (id: string, name: string, project: Project, extractedImages: ExtractedImage[]) => {
+  const { sources, ...layout } = project;
+  const record: SessionRecord = {
+    id,
+    name,
+    updatedAt: Date.now(),
+    pageCount: project.artboards.length,
+    objectCount: project.artboards.reduce((count, artboard) => count + artboard.objects.length, 0),
+    project: { ...layout, sourceIds: sources.map(source => source.id) },
+    extractedImages,
+  };
+  return run([SESSIONS, DOCUMENTS], 'readwrite', transaction => {
+    const documents = transaction.objectStore(DOCUMENTS);
+    const keysRequest = documents.getAllKeys();
+    keysRequest.onsuccess = () => {
+      const stored = new Set(keysRequest.result.map(String));
+      sources.filter(source => !stored.has(source.id)).forEach(source => documents.put(source));
+    };
+    transaction.objectStore(SESSIONS).put(record);
+    return () => undefined;
+  });
+};
+
+// Most recently updated first
+export const listSessions = async (): Promise<SessionInfo[]> => {
+  const records = await run([SESSIONS], 'readonly', transaction => {
+    const request = transaction.objectStore(SESSIONS).getAll();
+    return () => request.result as SessionRecord[];
+  });
+  return records
+    .map(({ id, name, updatedAt, pageCount, objectCount }) => ({ id, name, updatedAt, pageCount, objectCount }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = (id: string) => run([SESSIONS, DOCUMENTS], 'readonly', transaction => {
+  const documents = transaction.objectStore(DOCUMENTS);
+  const sources: (SourceDocument | undefined)[] = [];
+  const recordRequest = transaction.objectStore(SESSIONS).get(id);
+  recordRequest.onsuccess = () => {
+    const record = recordRequest.result as SessionRecord | undefined;
+    record?.project.sourceIds.forEach((sourceId, index) => {
+      const request = documents.get(sourceId);
+      request.onsuccess = () => { sources[index] = request.result; };
+    });
+  };
+
+  return (): StoredSession | null => {
+    const record = recordRequest.result as SessionRecord | undefined;
+    if (!record) return null;
+    const { sourceIds, ...project } = record.project;
+    if (sourceIds.some((_, index) => !sources[index])) {
+      throw new Error('A PDF used by the session is missing from storage');
+    }
+    return {
+      ...record,
+      project: {
+        ...project,
+        // Sessions stored by older versions may use the previous artboard layout
+        artboards: upgradeArtboards(project.artboards),
+        sources: sources as SourceDocument[],
+      },
+    };
+  };
+});
+
+export const renameSession = (id: string, name: string) => run([SESSIONS], 'readwrite', transaction => {
+  const store = transaction.objectStore(SESSIONS);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, name });
+  };
+  return () => undefined;
+});
+
+export const deleteSession = (id: string) => run([SESSIONS, DOCUMENTS], 'readwrite', transaction => {
+  transaction.objectStore(SESSIONS).delete(id);
+  pruneDocuments(transaction);
+  return () => undefined;
+});
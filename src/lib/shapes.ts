@@ -0,0 +1,129 @@
+import { Bounds } from './geometry';
+import { CanvasLine, CanvasShape, DashStyle, ShapeKind, StrokeStyle } from './types';
+
+export type ShapeTool = ShapeKind | 'line' | 'arrow';
+
+export const SHAPE_TOOLS: { value: ShapeTool; label: string; icon: string }[] = [
+  { value: 'rect', label: 'Rectangle', icon: '▭' },
+  { value: 'ellipse', label: 'Ellipse', icon: '◯' },
+  { value: 'line', label: 'Line', icon: '╱' },
+  { value: 'arrow', label: 'Arrow', icon: '↗' },
+  { value: 'callout', label: 'Callout', icon: '💬' },
+];
+
+export const DASH_STYLES: DashStyle[] = ['solid', 'dashed', 'dotted'];
+
+export const DEFAULT_STROKE_STYLE: StrokeStyle = {
+  stroke: '#dc2626',
+  strokeWidth: 3,
+  dash: 'solid',
+  opacity: 1,
+};
+
+// Size used when a shape tool is clicked rather than dragged
+export const DEFAULT_SHAPE_SIZE = 120;
+
+type Point = { x: number; y: number };
+
+// Dash pattern for Konva and PDF, scaled with the line so dots stay round-ish
+export const dashArray = (dash: DashStyle, strokeWidth: number): number[] => {
+  switch (dash) {
+    case 'dashed':
+      return [strokeWidth * 4, strokeWidth * 3];
+    case 'dotted':
+      return [strokeWidth, strokeWidth * 2];
+    default:
+      return [];
+  }
+};
+
+export const arrowHeadSize = (strokeWidth: number) => strokeWidth * 3 + 6;
+
+export const createShape = (kind: ShapeKind, bounds: Bounds): CanvasShape => ({
+  id: `shape-${Date.now()}-${Math.random()}`,
+  type: 'shape',
+  kind,
+  x: bounds.x,
+  y: bounds.y,
+  width: bounds.width,
+  height: bounds.height,
+  scaleX: 1,
+  scaleY: 1,
+  rotation: 0,
+  ...DEFAULT_STROKE_STYLE,
+  fill: kind === 'callout' ? '#ffffff' : null,
+  tail: kind === 'callout' ? { x: bounds.width * 0.25, y: bounds.height + Math.min(60, bounds.height) } : undefined,
+});
+
+// Position, box and local points for a line between two layout points
+export const lineGeometry = (start: Point, end: Point): Pick<CanvasLine, 'x' | 'y' | 'width' | 'height' | 'points' | 'rotation' | 'scaleX' | 'scaleY'> => {
+  const x = Math.min(start.x, end.x);
+  const y = Math.min(start.y, end.y);
+  return {
+    x,
+    y,
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+    points: [start.x - x, start.y - y, end.x - x, end.y - y],
+    rotation: 0,
+    scaleX: 1,
+    scaleY: 1,
+  };
+};
+
+export const createLine = (start: Point, end: Point, arrowEnd: boolean): CanvasLine => ({
+  id: `line-${Date.now()}-${Math.random()}`,
+  type: 'line',
+  ...lineGeometry(start, end),
+  ...DEFAULT_STROKE_STYLE,
+  arrowStart: false,
+  arrowEnd,
+});
+
+export const lineEndpoints = (line: CanvasLine): [Point, Point] => [
+  { x: line.x + line.points[0], y: line.y + line.points[1] },
+  { x: line.x + line.points[2], y: line.y + line.points[3] },
+];
+
+// Rounded box with a pointer towards `tail`. The pointer leaves from the edge
+// facing the tail; a tail inside the box draws no pointer.
+export const calloutPath = (width: number, height: number, tail: Point) => {
+  const radius = Math.min(12, width / 4, height / 4);
+  const base = Math.max(4, Math.min(width / 4, 30));
+  const baseX = Math.min(Math.max(tail.x, radius + base / 2), width - radius - base / 2);
+  const bottomPointer = tail.y > height ? ` L ${baseX + base / 2} ${height} L ${tail.x} ${tail.y} L ${baseX - base / 2} ${height}` : '';
+  const topPointer = tail.y < 0 ? ` L ${baseX - base / 2} 0 L ${tail.x} ${tail.y} L ${baseX + base / 2} 0` : '';
+  return [
+    `M ${radius} 0`,
+    `${topPointer} L ${width - radius} 0`,
+    `Q ${width} 0 ${width} ${radius}`,
+    `L ${width} ${height - radius}`,
+    `Q ${width} ${height} ${width - radius} ${height}`,
+    `${bottomPointer} L ${radius} ${height}`,
+    `Q 0 ${height} 0 ${height - radius}`,
+    `L 0 ${radius}`,
+    `Q 0 0 ${radius} 0`,
+    'Z',
+  ].join(' ');
+};
+
+// Outline of a shape as SVG path data in its local coordinates
+export const shapePath = (shape: CanvasShape) => {
+  const { width: w, height: h } = shape;
+  switch (shape.kind) {
+    case 'ellipse':
+      return `M 0 ${h / 2} A ${w / 2} ${h / 2} 0 1 0 ${w} ${h / 2} A ${w / 2} ${h / 2} 0 1 0 0 ${h / 2} Z`;
+    case 'callout':
+      return calloutPath(w, h, shape.tail ?? { x: w / 4, y: h });
+    default:
+      return `M 0 0 L ${w} 0 L ${w} ${h} L 0 ${h} Z`;
+  }
+};
+
+// Filled triangle with its tip at `to`, pointing away from `from`
+export const arrowHeadPath = (from: Point, to: Point, size: number) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const left = { x: to.x - size * Math.cos(angle - Math.PI / 6), y: to.y - size * Math.sin(angle - Math.PI / 6) };
+  const right = { x: to.x - size * Math.cos(angle + Math.PI / 6), y: to.y - size * Math.sin(angle + Math.PI / 6) };
+  return `M ${to.x} ${to.y} L ${left.x} ${left.y} L ${right.x} ${right.y} Z`;
+};
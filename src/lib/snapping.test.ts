@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { createSnapIndex, nearestTarget, snapBox, snapPoint, snapToGrid } from './snapping';
+
+const options = { tolerance: 5, gridSize: null };
+
+describe('nearestTarget', () => {
+  it('returns the closest value within tolerance', () => {
+    expect(nearestTarget([0, 10, 20], 12, 5)).toBe(10);
+    expect(nearestTarget([0, 10, 20], 16, 5)).toBe(20);
+  });
+
+  it('returns null when nothing is close enough', () => {
+    expect(nearestTarget([0, 10, 20], 35, 5)).toBeNull();
+    expect(nearestTarget([], 3, 5)).toBeNull();
+  });
+
+  it('handles values beyond both ends of the list', () => {
+    expect(nearestTarget([10, 20], 7, 5)).toBe(10);
+    expect(nearestTarget([10, 20], 24, 5)).toBe(20);
+  });
+});
+
+describe('snapToGrid', () => {
+  it('rounds to the nearest grid line', () => {
+    expect(snapToGrid(29, 20)).toBe(20);
+    expect(snapToGrid(31, 20)).toBe(40);
+    expect(snapToGrid(-11, 20)).toBe(-20);
+  });
+});
+
+describe('snapBox', () => {
+  const target = { x: 100, y: 100, width: 50, height: 50 };
+
+  it('snaps a left edge to a right edge', () => {
+    const index = createSnapIndex([target]);
+    const result = snapBox(index, { x: 153, y: 400, width: 20, height: 20 }, options);
+    expect(result.x).toBe(150);
+    expect(result.guides.x).toEqual([150]);
+  });
+
+  it('snaps the right edge and the centre', () => {
+    const index = createSnapIndex([target]);
+    expect(snapBox(index, { x: 78, y: 400, width: 20, height: 20 }, options).x).toBe(80);
+    expect(snapBox(index, { x: 113, y: 400, width: 20, height: 20 }, options).x).toBe(115);
+  });
+
+  it('snaps each axis on its own', () => {
+    const index = createSnapIndex([target]);
+    const result = snapBox(index, { x: 152, y: 320, width: 20, height: 20 }, options);
+    expect(result.x).toBe(150);
+    expect(result.y).toBe(320);
+    expect(result.guides.y).toEqual([]);
+  });
+
+  it('picks the closest of several targets', () => {
+    const index = createSnapIndex([], { vertical: [100, 104], horizontal: [] });
+    expect(snapBox(index, { x: 103, y: 0, width: 10, height: 10 }, options).x).toBe(104);
+  });
+
+  it('respects the tolerance', () => {
+    const index = createSnapIndex([target]);
+    expect(snapBox(index, { x: 158, y: 400, width: 20, height: 20 }, options).x).toBe(158);
+    expect(snapBox(index, { x: 158, y: 400, width: 20, height: 20 }, { ...options, tolerance: 10 }).x).toBe(150);
+  });
+
+  it('falls back to the grid when no target is in reach', () => {
+    const index = createSnapIndex([target]);
+    const result = snapBox(index, { x: 318, y: 402, width: 20, height: 20 }, { tolerance: 5, gridSize: 20 });
+    expect(result.x).toBe(320);
+    expect(result.y).toBe(400);
+  });
+
+  it('prefers object targets over the grid', () => {
+    const index = createSnapIndex([{ x: 103, y: 0, width: 10, height: 10 }]);
+    const result = snapBox(index, { x: 101, y: 200, width: 10, height: 10 }, { tolerance: 5, gridSize: 20 });
+    expect(result.x).toBe(103);
+  });
+
+  it('centres a box between two neighbours and reports the gaps', () => {
+    const index = createSnapIndex([
+      { x: 0, y: 0, width: 100, height: 50 },
+      { x: 300, y: 0, width: 100, height: 50 },
+    ]);
+    const result = snapBox(index, { x: 187, y: 5, width: 20, height: 20 }, options);
+    expect(result.x).toBe(190);
+    expect(result.spacing).toEqual([{
+      axis: 'x',
+      distance: 90,
+      gaps: [
+        { start: 100, end: 190, cross: 15 },
+        { start: 210, end: 300, cross: 15 },
+      ],
+    }]);
+  });
+
+  it('repeats the gap between the previous two boxes in a row', () => {
+    const index = createSnapIndex([
+      { x: 0, y: 0, width: 50, height: 50 },
+      { x: 80, y: 0, width: 50, height: 50 },
+    ]);
+    const result = snapBox(index, { x: 163, y: 0, width: 50, height: 50 }, { tolerance: 5, gridSize: null });
+    expect(result.x).toBe(160);
+    expect(result.spacing[0].distance).toBe(30);
+  });
+
+  it('ignores boxes outside the row when measuring spacing', () => {
+    const index = createSnapIndex([
+      { x: 0, y: 0, width: 50, height: 50 },
+      { x: 80, y: 0, width: 50, height: 50 },
+    ]);
+    const result = snapBox(index, { x: 163, y: 500, width: 50, height: 50 }, options);
+    expect(result.x).toBe(163);
+    expect(result.spacing).toEqual([]);
+  });
+
+  it('finds targets among many objects', () => {
+    const boxes = Array.from({ length: 1000 }, (_, i) => ({
+      x: (i % 40) * 137,
+      y: Math.floor(i / 40) * 91,
+      width: 60,
+      height: 40,
+    }));
+    const index = createSnapIndex(boxes);
+    const result = snapBox(index, { x: 139, y: 93, width: 60, height: 40 }, options);
+    expect(result.x).toBe(137);
+    expect(result.y).toBe(91);
+  });
+});
+
+describe('snapPoint', () => {
+  it('snaps x and y to the nearest targets independently', () => {
+    const index = createSnapIndex([], { vertical: [50], horizontal: [80] });
+    expect(snapPoint(index, { x: 52, y: 200 }, options)).toMatchObject({ x: 50, y: 200, guides: { x: [50], y: [] } });
+  });
+
+  it('uses the grid for free axes', () => {
+    const index = createSnapIndex([], { vertical: [50], horizontal: [] });
+    expect(snapPoint(index, { x: 52, y: 198 }, { tolerance: 5, gridSize: 20 })).toMatchObject({ x: 50, y: 200 });
+  });
+});
@@ -0,0 +1,260 @@
+import { Bounds } from './geometry';
+
+// Snapping works in layout coordinates on axis-aligned boxes; callers pass the
+// rotated bounding boxes from getObjectBounds. X and Y are resolved separately,
+// so an edge can lock to one target while the other axis moves freely.
+
+export interface SnapOptions {
+  // Furthest an edge may be pulled, in layout units
+  tolerance: number;
+  // Grid spacing, or null when the grid is off. Object and guide targets win
+  // over the grid when both are in reach.
+  gridSize: number | null;
+}
+
+export interface SnapLines {
+  x: number[];
+  y: number[];
+}
+
+// A run of equal gaps next to the moving box. Each gap spans start..end along
+// `axis` and is drawn at `cross` on the other axis.
+export interface SpacingHint {
+  axis: 'x' | 'y';
+  distance: number;
+  gaps: { start: number; end: number; cross: number }[];
+}
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  // Target lines an edge or centre of the result lies on
+  guides: SnapLines;
+  spacing: SpacingHint[];
+}
+
+// Snap targets for everything that stays put during a drag. Build it once when
+// the drag starts; queries are then logarithmic in the number of targets rather
+// than a scan over every object.
+export interface SnapIndex {
+  // Sorted, de-duplicated target positions for vertical and horizontal lines
+  xs: number[];
+  ys: number[];
+  boxes: Bounds[];
+  cellSize: number;
+  // Box indexes bucketed by the horizontal bands (rows) and vertical bands
+  // (columns) they cover, for finding neighbours to measure spacing against
+  rows: Map<number, number[]>;
+  columns: Map<number, number[]>;
+}
+
+const DEFAULT_CELL_SIZE = 200;
+
+const sortedUnique = (values: number[]) =>
+  [...values].sort((a, b) => a - b).filter((value, index, sorted) => index === 0 || value !== sorted[index - 1]);
+
+const addToBuckets = (buckets: Map<number, number[]>, from: number, to: number, cellSize: number, index: number) => {
+  for (let cell = Math.floor(from / cellSize); cell <= Math.floor(to / cellSize); cell++) {
+    const bucket = buckets.get(cell);
+    if (bucket) bucket.push(index);
+    else buckets.set(cell, [index]);
+  }
+};
+
+// `guides` are extra target lines such as page edges and ruler guides
+export const createSnapIndex = (
+  boxes: Bounds[],
+  guides: { vertical: number[]; horizontal: number[] } = { vertical: [], horizontal: [] },
+  cellSize = DEFAULT_CELL_SIZE
+): SnapIndex => {
+  const rows = new Map<number, number[]>();
+  const columns = new Map<number, number[]>();
+  boxes.forEach((box, index) => {
+    addToBuckets(rows, box.y, box.y + box.height, cellSize, index);
+    addToBuckets(columns, box.x, box.x + box.width, cellSize, index);
+  });
+  return {
+    xs: sortedUnique([...guides.vertical, ...boxes.flatMap(box => [box.x, box.x + box.width / 2, box.x + box.width])]),
+    ys: sortedUnique([...guides.horizontal, ...boxes.flatMap(box => [box.y, box.y + box.height / 2, box.y + box.height])]),
+    boxes,
+    cellSize,
+    rows,
+    columns,
+  };
+};
+
+// Closest value in a sorted list, if one is within `tolerance`
+export const nearestTarget = (sorted: number[], value: number, tolerance: number): number | null => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  let best: number | null = null;
+  for (const candidate of [sorted[low - 1], sorted[low]]) {
+    if (candidate === undefined || Math.abs(candidate - value) > tolerance) continue;
+    if (best === null || Math.abs(candidate - value) < Math.abs(best - value)) best = candidate;
+  }
+  return best;
+};
+
+export const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+type Axis = 'x' | 'y';
+
+const span = (box: Bounds, axis: Axis) =>
+  axis === 'x' ? { start: box.x, size: box.width } : { start: box.y, size: box.height };
+
+// Boxes sharing a row (for x) or column (for y) with the range from..to on the other axis
+const neighbours = (index: SnapIndex, axis: Axis, from: number, to: number): Bounds[] => {
+  const buckets = axis === 'x' ? index.rows : index.columns;
+  const found = new Set<number>();
+  for (let cell = Math.floor(from / index.cellSize); cell <= Math.floor(to / index.cellSize); cell++) {
+    buckets.get(cell)?.forEach(boxIndex => found.add(boxIndex));
+  }
+  return [...found]
+    .map(boxIndex => index.boxes[boxIndex])
+    .filter(box => {
+      const cross = span(box, axis === 'x' ? 'y' : 'x');
+      return cross.start < to && cross.start + cross.size > from;
+    });
+};
+
+interface AxisSnap {
+  delta: number;
+  spacing?: { distance: number; gaps: { start: number; end: number }[] };
+}
+
+// Best move along one axis from aligning an edge or the centre with a target
+const alignAxis = (targets: number[], start: number, size: number, tolerance: number): AxisSnap | null => {
+  let best: AxisSnap | null = null;
+  for (const offset of [0, size / 2, size]) {
+    const target = nearestTarget(targets, start + offset, tolerance);
+    if (target !== null && (best === null || Math.abs(target - start - offset) < Math.abs(best.delta))) {
+      best = { delta: target - start - offset };
+    }
+  }
+  return best;
+};
+
+// Best move that makes the gaps on either side of the box equal, or repeats the
+// gap between its neighbour and the next box along
+const spaceAxis = (index: SnapIndex, axis: Axis, box: Bounds, tolerance: number): AxisSnap | null => {
+  const { start, size } = span(box, axis);
+  const cross = span(box, axis === 'x' ? 'y' : 'x');
+  const row = neighbours(index, axis, cross.start, cross.start + cross.size).map(other => {
+    const { start: otherStart, size: otherSize } = span(other, axis);
+    return { start: otherStart, end: otherStart + otherSize };
+  });
+  const centre = start + size / 2;
+  const before = row.filter(other => other.end <= centre).sort((a, b) => b.end - a.end);
+  const after = row.filter(other => other.start >= centre).sort((a, b) => a.start - b.start);
+  const [previous] = before;
+  const [next] = after;
+
+  const candidates: { position: number; distance: number; gaps: { start: number; end: number }[] }[] = [];
+  if (previous && next) {
+    const gap = (next.start - previous.end - size) / 2;
+    const position = previous.end + gap;
+    if (gap >= 0) {
+      candidates.push({
+        position,
+        distance: gap,
+        gaps: [{ start: previous.end, end: position }, { start: position + size, end: next.start }],
+      });
+    }
+  }
+  if (previous) {
+    const beyond = before.find(other => other.end <= previous.start);
+    if (beyond) {
+      const gap = previous.start - beyond.end;
+      candidates.push({
+        position: previous.end + gap,
+        distance: gap,
+        gaps: [{ start: beyond.end, end: previous.start }, { start: previous.end, end: previous.end + gap }],
+      });
+    }
+  }
+  if (next) {
+    const beyond = after.find(other => other.start >= next.end);
+    if (beyond) {
+      const gap = beyond.start - next.end;
+      candidates.push({
+        position: next.start - gap - size,
+        distance: gap,
+        gaps: [{ start: next.start - gap, end: next.start }, { start: next.end, end: beyond.start }],
+      });
+    }
+  }
+
+  let best: AxisSnap | null = null;
+  for (const candidate of candidates) {
+    const delta = candidate.position - start;
+    if (Math.abs(delta) <= tolerance && (best === null || Math.abs(delta) < Math.abs(best.delta))) {
+      best = { delta, spacing: { distance: candidate.distance, gaps: candidate.gaps } };
+    }
+  }
+  return best;
+};
+
+const resolveAxis = (index: SnapIndex, axis: Axis, box: Bounds, options: SnapOptions): AxisSnap | null => {
+  const { start, size } = span(box, axis);
+  const aligned = alignAxis(axis === 'x' ? index.xs : index.ys, start, size, options.tolerance);
+  const spaced = spaceAxis(index, axis, box, options.tolerance);
+  // Alignment wins ties so boxes line up with each other before spacing evenly
+  const best = aligned && (!spaced || Math.abs(aligned.delta) <= Math.abs(spaced.delta)) ? aligned : spaced;
+  if (best || !options.gridSize) return best;
+  const delta = snapToGrid(start, options.gridSize) - start;
+  return Math.abs(delta) <= options.tolerance ? { delta } : null;
+};
+
+// Lines in `targets` that an edge or centre of start..start+size lies on
+const touchingLines = (targets: number[], start: number, size: number) =>
+  sortedUnique([start, start + size / 2, start + size]).filter(value => nearestTarget(targets, value, 1e-6) !== null);
+
+// Snaps a box moving as a unit, e.g. the bounds of a dragged selection
+export const snapBox = (index: SnapIndex, box: Bounds, options: SnapOptions): SnapResult => {
+  const snapX = resolveAxis(index, 'x', box, options);
+  const snapY = resolveAxis(index, 'y', box, options);
+  const x = box.x + (snapX?.delta ?? 0);
+  const y = box.y + (snapY?.delta ?? 0);
+
+  const spacing: SpacingHint[] = [];
+  if (snapX?.spacing) {
+    const cross = y + box.height / 2;
+    spacing.push({ axis: 'x', distance: snapX.spacing.distance, gaps: snapX.spacing.gaps.map(gap => ({ ...gap, cross })) });
+  }
+  if (snapY?.spacing) {
+    const cross = x + box.width / 2;
+    spacing.push({ axis: 'y', distance: snapY.spacing.distance, gaps: snapY.spacing.gaps.map(gap => ({ ...gap, cross })) });
+  }
+  return {
+    x,
+    y,
+    guides: { x: touchingLines(index.xs, x, box.width), y: touchingLines(index.ys, y, box.height) },
+    spacing,
+  };
+};
+
+// Snaps a single point, e.g. a line endpoint or the corner of a shape being drawn
+export const snapPoint = (index: SnapIndex, point: { x: number; y: number }, options: SnapOptions): SnapResult => {
+  const snapValue = (targets: number[], value: number) => {
+    const target = nearestTarget(targets, value, options.tolerance);
+    if (target !== null) return target;
+    if (options.gridSize) {
+      const gridValue = snapToGrid(value, options.gridSize);
+      if (Math.abs(gridValue - value) <= options.tolerance) return gridValue;
+    }
+    return value;
+  };
+  const x = snapValue(index.xs, point.x);
+  const y = snapValue(index.ys, point.y);
+  return {
+    x,
+    y,
+    guides: { x: touchingLines(index.xs, x, 0), y: touchingLines(index.ys, y, 0) },
+    spacing: [],
+  };
+};
@@ -0,0 +1,55 @@
+import Konva from 'konva';
+import { CanvasText } from './types';
+
+// Families offered in the text settings. PDF export maps them onto the
+// standard PDF fonts so the text stays selectable without embedding font files.
+export const FONT_FAMILIES = ['Arial', 'Helvetica', 'Times New Roman', 'Georgia', 'Courier New', 'Verdana'];
+
+export const DEFAULT_TEXT_STYLE: Pick<CanvasText, 'fontFamily' | 'fontSize' | 'fontWeight' | 'fill' | 'align' | 'lineHeight'> = {
+  fontFamily: 'Arial',
+  fontSize: 24,
+  fontWeight: 'normal',
+  fill: '#111827',
+  align: 'left',
+  lineHeight: 1.2,
+};
+
+const DEFAULT_TEXT_WIDTH = 240;
+
+// Height of the wrapped text as Konva lays it out
+export const measureTextHeight = (text: Pick<CanvasText, 'text' | 'width' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'lineHeight'>) => {
+  const node = new Konva.Text({
+    text: text.text,
+    width: text.width,
+    fontFamily: text.fontFamily,
+    fontSize: text.fontSize,
+    fontStyle: text.fontWeight,
+    lineHeight: text.lineHeight,
+  });
+  const height = node.height();
+  node.destroy();
+  return height;
+};
+
+export const createTextObject = (x: number, y: number, content = 'Double-click to edit'): CanvasText => {
+  const text: CanvasText = {
+    id: `text-${Date.now()}-${Math.random()}`,
+    type: 'text',
+    text: content,
+    x,
+    y,
+    width: DEFAULT_TEXT_WIDTH,
+    height: 0,
+    scaleX: 1,
+    scaleY: 1,
+    rotation: 0,
+    ...DEFAULT_TEXT_STYLE,
+  };
+  return { ...text, height: measureTextHeight(text) };
+};
+
+// Applies style or content changes, re-measuring the height they affect
+export const withTextChanges = (text: CanvasText, changes: Partial<CanvasText>): Partial<CanvasText> => ({
+  ...changes,
+  height: measureTextHeight({ ...text, ...changes }),
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getObjectBounds } from './geometry';
+import { createShape, lineEndpoints, lineGeometry } from './shapes';
+import { flipObject, getObjectCentre, normalizeRotation, resizeObject, rotateObject } from './transforms';
+import { CanvasLine, CanvasObject } from './types';
+
+// Text measuring needs Konva and a canvas; none of these tests resize text
+vi.mock('./text', () => ({ withTextChanges: vi.fn() }));
+
+const rect = (x: number, y: number, width = 40, height = 20) => createShape('rect', { x, y, width, height });
+
+const line = (start: { x: number; y: number }, end: { x: number; y: number }): CanvasLine => ({
+  id: 'line',
+  type: 'line',
+  ...lineGeometry(start, end),
+  stroke: '#000000',
+  strokeWidth: 1,
+  dash: 'solid',
+  opacity: 1,
+  arrowStart: false,
+  arrowEnd: false,
+});
+
+const apply = <T extends CanvasObject>(object: T, changes: Partial<CanvasObject>) => ({ ...object, ...changes } as T);
+
+const expectPointClose = (actual: { x: number; y: number }, expected: { x: number; y: number }) => {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+};
+
+describe('normalizeRotation', () => {
+  it('wraps angles into -180..180', () => {
+    expect(normalizeRotation(270)).toBe(-90);
+    expect(normalizeRotation(-270)).toBe(90);
+    expect(normalizeRotation(540)).toBe(180);
+    expect(normalizeRotation(45)).toBe(45);
+  });
+});
+
+describe('rotateObject', () => {
+  it('turns about the object centre by default', () => {
+    const object = rect(100, 100);
+    const rotated = apply(object, rotateObject(object, 90));
+    expect(rotated.rotation).toBe(90);
+    expectPointClose(getObjectCentre(rotated), { x: 120, y: 110 });
+    const bounds = getObjectBounds(rotated);
+    expect(bounds.width).toBeCloseTo(20);
+    expect(bounds.height).toBeCloseTo(40);
+  });
+
+  it('moves the centre around a given pivot', () => {
+    const object = rect(100, 100);
+    const rotated = apply(object, rotateObject(object, 90, { x: 100, y: 100 }));
+    expectPointClose(getObjectCentre(rotated), { x: 90, y: 120 });
+  });
+
+  it('adds to the existing rotation and keeps it normalised', () => {
+    const object = { ...rect(0, 0), rotation: 135 };
+    expect(rotateObject(object, 90).rotation).toBe(-135);
+  });
+
+  it('bakes the rotation into line endpoints', () => {
+    const object = line({ x: 0, y: 0 }, { x: 40, y: 0 });
+    const rotated = apply(object, rotateObject(object, 90));
+    expect(rotated.rotation).toBe(0);
+    const [start, end] = lineEndpoints(rotated);
+    expectPointClose(start, { x: 20, y: -20 });
+    expectPointClose(end, { x: 20, y: 20 });
+  });
+});
+
+describe('flipObject', () => {
+  it('mirrors in place about the object centre', () => {
+    const object = rect(100, 100);
+    const flipped = apply(object, flipObject(object, 'horizontal'));
+    expect(flipped.scaleX).toBe(-1);
+    expect(flipped.scaleY).toBe(1);
+    expectPointClose(getObjectCentre(flipped), { x: 120, y: 110 });
+    expect(getObjectBounds(flipped)).toEqual(getObjectBounds(object));
+  });
+
+  it('flips vertically across a pivot line', () => {
+    const object = rect(100, 100);
+    const flipped = apply(object, flipObject(object, 'vertical', { x: 0, y: 0 }));
+    expect(flipped.scaleY).toBe(-1);
+    expectPointClose(getObjectCentre(flipped), { x: 120, y: -110 });
+  });
+
+  it('reverses the rotation of a rotated object', () => {
+    const object = { ...rect(0, 0), rotation: 30 };
+    expect(flipObject(object, 'horizontal').rotation).toBe(-30);
+  });
+
+  it('returns to the original after flipping twice', () => {
+    const object = { ...rect(10, 20), rotation: 30 };
+    const once = apply(object, flipObject(object, 'horizontal'));
+    const twice = apply(once, flipObject(once, 'horizontal'));
+    expect(twice.x).toBeCloseTo(object.x);
+    expect(twice.y).toBeCloseTo(object.y);
+    expect(twice.rotation).toBeCloseTo(30);
+    expect(twice.scaleX).toBe(1);
+  });
+
+  it('swaps line endpoints across the pivot', () => {
+    const object = line({ x: 0, y: 0 }, { x: 40, y: 20 });
+    const [start, end] = lineEndpoints(apply(object, flipObject(object, 'horizontal')));
+    expectPointClose(start, { x: 40, y: 0 });
+    expectPointClose(end, { x: 0, y: 20 });
+  });
+});
+
+describe('resizeObject', () => {
+  it('keeps the top left corner of the bounding box in place', () => {
+    const object = { ...rect(100, 100), rotation: 90 };
+    const before = getObjectBounds(object);
+    const resized = apply(object, resizeObject(object, 80, 20));
+    const after = getObjectBounds(resized);
+    expect(resized.width).toBeCloseTo(80);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  it('scales groups and freehand strokes instead of resizing them', () => {
+    const object: CanvasObject = {
+      id: 'stroke',
+      type: 'freehand',
+      tool: 'pen',
+      x: 0,
+      y: 0,
+      width: 40,
+      height: 20,
+      scaleX: -1,
+      scaleY: 1,
+      rotation: 0,
+      points: [0, 0, 40, 20],
+      pressures: null,
+      stroke: '#000000',
+      strokeWidth: 2,
+      opacity: 1,
+    };
+    const changes = resizeObject(object, 80, 40);
+    expect(changes.scaleX).toBe(-2);
+    expect(changes.scaleY).toBe(2);
+  });
+});
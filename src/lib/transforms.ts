@@ -0,0 +1,129 @@
+import { getObjectBounds } from './geometry';
+import { applyToPoint, nodeMatrix } from './matrix';
+import { lineEndpoints, lineGeometry } from './shapes';
+import { withTextChanges } from './text';
+import { CanvasObject } from './types';
+
+// Exact edits from the inspector. Each helper returns the changed attributes of
+// one object, ready for an update command. Flips live in the sign of
+// scaleX/scaleY; sizes are always positive.
+
+type Point = { x: number; y: number };
+
+export type FlipAxis = 'horizontal' | 'vertical';
+
+// Keeps rotations in -180..180 so the inspector shows familiar angles
+export const normalizeRotation = (degrees: number) => {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+// Width and height before rotation, as seen on the page
+export const getObjectSize = (object: CanvasObject) => ({
+  width: object.width * Math.abs(object.scaleX),
+  height: object.height * Math.abs(object.scaleY),
+});
+
+export const getObjectCentre = (object: CanvasObject): Point =>
+  applyToPoint(
+    nodeMatrix(object.x, object.y, object.rotation, object.scaleX, object.scaleY),
+    object.width / 2,
+    object.height / 2
+  );
+
+// Position that puts the object's centre at `centre` with the given rotation and scale
+const placeCentre = (object: CanvasObject, centre: Point, rotation: number, scaleX: number, scaleY: number) => {
+  const offset = applyToPoint(nodeMatrix(0, 0, rotation, scaleX, scaleY), object.width / 2, object.height / 2);
+  return { x: centre.x - offset.x, y: centre.y - offset.y, rotation, scaleX, scaleY };
+};
+
+const rotatePoint = (point: Point, pivot: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const dx = point.x - pivot.x;
+  const dy = point.y - pivot.y;
+  return {
+    x: pivot.x + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: pivot.y + dx * Math.sin(rad) + dy * Math.cos(rad),
+  };
+};
+
+// Lines are stored unrotated, so every transform is baked into their endpoints
+const mapLine = (object: CanvasObject, map: (point: Point) => Point): Partial<CanvasObject> | null => {
+  if (object.type !== 'line') return null;
+  const [start, end] = lineEndpoints(object);
+  return lineGeometry(map(start), map(end));
+};
+
+// Resizes the unrotated box, keeping the top left corner of the bounding box in place.
+// Text only takes a new width; its height follows the wrapped content.
+export const resizeObject = (object: CanvasObject, width: number, height: number): Partial<CanvasObject> => {
+  const size = getObjectSize(object);
+  const factorX = size.width > 0 ? width / size.width : 1;
+  const factorY = size.height > 0 ? height / size.height : 1;
+  let changes: Partial<CanvasObject>;
+  switch (object.type) {
+    case 'line': {
+      const [x1, y1, x2, y2] = object.points;
+      changes = {
+        width: object.width * factorX,
+        height: object.height * factorY,
+        points: [x1 * factorX, y1 * factorY, x2 * factorX, y2 * factorY],
+      };
+      break;
+    }
+    case 'freehand':
+    case 'group':
+      // These keep their scale, like they do on the transformer
+      changes = { scaleX: object.scaleX * factorX, scaleY: object.scaleY * factorY };
+      break;
+    case 'text':
+      changes = withTextChanges(object, { width: object.width * factorX });
+      break;
+    case 'shape':
+      changes = {
+        width: object.width * factorX,
+        height: object.height * factorY,
+        ...(object.tail ? { tail: { x: object.tail.x * factorX, y: object.tail.y * factorY } } : {}),
+      };
+      break;
+    default:
+      changes = { width: object.width * factorX, height: object.height * factorY };
+  }
+  const before = getObjectBounds(object);
+  const after = getObjectBounds({ ...object, ...changes } as CanvasObject);
+  return { ...changes, x: object.x + before.x - after.x, y: object.y + before.y - after.y };
+};
+
+// Turns the object by `degrees` clockwise around `pivot`, its own centre by default
+export const rotateObject = (
+  object: CanvasObject,
+  degrees: number,
+  pivot: Point = getObjectCentre(object)
+): Partial<CanvasObject> =>
+  mapLine(object, point => rotatePoint(point, pivot, degrees)) ?? placeCentre(
+    object,
+    rotatePoint(getObjectCentre(object), pivot, degrees),
+    normalizeRotation(object.rotation + degrees),
+    object.scaleX,
+    object.scaleY
+  );
+
+// Mirrors the object across the vertical (horizontal flip) or horizontal
+// (vertical flip) line through `pivot`. Mirroring a rotated object on the page
+// is a local flip with the rotation reversed.
+export const flipObject = (
+  object: CanvasObject,
+  axis: FlipAxis,
+  pivot: Point = getObjectCentre(object)
+): Partial<CanvasObject> => {
+  const mirror = (point: Point) => axis === 'horizontal'
+    ? { x: 2 * pivot.x - point.x, y: point.y }
+    : { x: point.x, y: 2 * pivot.y - point.y };
+  return mapLine(object, mirror) ?? placeCentre(
+    object,
+    mirror(getObjectCentre(object)),
+    normalizeRotation(-object.rotation),
+    axis === 'horizontal' ? -object.scaleX : object.scaleX,
+    axis === 'vertical' ? -object.scaleY : object.scaleY
+  );
+};
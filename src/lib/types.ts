@@ -0,0 +1,161 @@
+// An uploaded PDF kept around so placed pages can be exported as vectors
+export interface SourceDocument {
+  id: string;
+  name: string;
+  bytes: ArrayBuffer;
+}
+
+// A page of a source document; `documentId` keys `SourceDocument`
+export interface PageInfo {
+  documentId: string;
+  pageNumber: number;
+  selected: boolean;
+  // Undefined until the page has been scanned for images
+  extractedImages?: ExtractedImage[];
+}
+
+// An image embedded in a PDF page. x/y/width/height are its bounding box on the
+// rendered page; naturalWidth/naturalHeight the pixel size stored in the PDF.
+export interface ExtractedImage {
+  id: string;
+  documentId: string;
+  src: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  naturalWidth: number;
+  naturalHeight: number;
+  pageNumber: number;
+  selected: boolean;
+}
+
+// Points a placed image back at the PDF page it was rendered from.
+// `renderScale` is the pdf.js viewport scale of the raster in `src`.
+export interface PdfPageRef {
+  documentId: string;
+  pageNumber: number;
+  renderScale: number;
+}
+
+// Position, size and transform shared by everything placed on an artboard
+export interface CanvasObjectBase {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+  rotation: number;
+  // Layer panel state; a missing name falls back to one derived from the type
+  name?: string;
+  locked?: boolean;
+  hidden?: boolean;
+}
+
+export interface CanvasImage extends CanvasObjectBase {
+  type: 'image';
+  src: string;
+  cropX?: number;
+  cropY?: number;
+  cropWidth?: number;
+  cropHeight?: number;
+  source?: PdfPageRef;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+export type FontWeight = 'normal' | 'bold';
+
+// A text box; `width` wraps the text and `height` is measured from the content.
+// `lineHeight` is a multiple of the font size.
+export interface CanvasText extends CanvasObjectBase {
+  type: 'text';
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: FontWeight;
+  fill: string;
+  align: TextAlign;
+  lineHeight: number;
+}
+
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+
+// Outline settings shared by shapes and lines; `opacity` applies to the whole object
+export interface StrokeStyle {
+  stroke: string;
+  strokeWidth: number;
+  dash: DashStyle;
+  opacity: number;
+}
+
+export type ShapeKind = 'rect' | 'ellipse' | 'callout';
+
+// A closed shape filling its width/height box. `fill` is null for outline only.
+// Callouts point at `tail`, given in the shape's local coordinates.
+export interface CanvasShape extends CanvasObjectBase, StrokeStyle {
+  type: 'shape';
+  kind: ShapeKind;
+  fill: string | null;
+  tail?: { x: number; y: number };
+}
+
+// A straight line, optionally with arrowheads. Lines are kept unrotated and
+// unscaled: `points` are the two endpoints relative to x/y, inside width/height.
+export interface CanvasLine extends CanvasObjectBase, StrokeStyle {
+  type: 'line';
+  points: [number, number, number, number];
+  arrowStart: boolean;
+  arrowEnd: boolean;
+}
+
+export type FreehandTool = 'pen' | 'highlighter';
+
+// A hand-drawn stroke. `points` is the simplified centre line relative to x/y,
+// and `pressures` holds one stylus pressure (0-1) per point when one was
+// reported. Strokes keep their transform scale so the ink scales with them.
+export interface CanvasFreehand extends CanvasObjectBase {
+  type: 'freehand';
+  tool: FreehandTool;
+  points: number[];
+  pressures: number[] | null;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+}
+
+// Objects moved, transformed and exported as one unit. Children are in the
+// group's local space, whose content box starts at 0,0 and spans width/height.
+// Groups keep their transform scale, like freehand strokes.
+export interface CanvasGroup extends CanvasObjectBase {
+  type: 'group';
+  children: CanvasObject[];
+}
+
+export type CanvasObject = CanvasImage | CanvasText | CanvasShape | CanvasLine | CanvasFreehand | CanvasGroup;
+
+// A ruler guide across the page: a vertical line at `position` when `axis` is
+// 'x', a horizontal one when it is 'y'. Positions are layout pixels from the
+// trim edge, like object coordinates.
+export interface Guide {
+  id: string;
+  axis: 'x' | 'y';
+  position: number;
+  locked?: boolean;
+}
+
+// One sheet of the layout; exported as one output page. Sizes are layout
+// pixels (96 dpi): `margin` and `safeArea` are insets from the trim edge,
+// `bleed` extends beyond it.
+export interface Artboard {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  margin: number;
+  bleed: number;
+  safeArea: number;
+  objects: CanvasObject[];
+  guides: Guide[];
+}
@@ -0,0 +1,58 @@
+// Layout coordinates are CSS pixels at 96 dpi
+export type Unit = 'mm' | 'in' | 'px';
+
+export const UNITS: Unit[] = ['mm', 'in', 'px'];
+
+export const PX_PER_INCH = 96;
+export const MM_PER_INCH = 25.4;
+// PDF points are 1/72 inch
+export const PT_PER_PX = 72 / PX_PER_INCH;
+
+const pxPerUnit = (unit: Unit) => {
+  switch (unit) {
+    case 'in':
+      return PX_PER_INCH;
+    case 'mm':
+      return PX_PER_INCH / MM_PER_INCH;
+    default:
+      return 1;
+  }
+};
+
+export const toPx = (value: number, unit: Unit) => value * pxPerUnit(unit);
+
+export const fromPx = (value: number, unit: Unit) => value / pxPerUnit(unit);
+
+// Rounds a converted value for display in inputs
+export const formatUnit = (valuePx: number, unit: Unit) => {
+  const decimals = unit === 'px' ? 0 : unit === 'mm' ? 1 : 2;
+  return Number(fromPx(valuePx, unit).toFixed(decimals));
+};
+
+export interface PagePreset {
+  name: string;
+  // Portrait dimensions
+  width: number;
+  height: number;
+  unit: Unit;
+}
+
+export const PAGE_PRESETS: PagePreset[] = [
+  { name: 'A3', width: 297, height: 420, unit: 'mm' },
+  { name: 'A4', width: 210, height: 297, unit: 'mm' },
+  { name: 'A5', width: 148, height: 210, unit: 'mm' },
+  { name: 'Letter', width: 8.5, height: 11, unit: 'in' },
+  { name: 'Legal', width: 8.5, height: 14, unit: 'in' },
+  { name: 'Tabloid', width: 11, height: 17, unit: 'in' },
+];
+
+// Returns the preset matching the given size in either orientation
+export const findPagePreset = (widthPx: number, heightPx: number) => {
+  const matches = (a: number, b: number) => Math.abs(a - b) < 0.5;
+  return PAGE_PRESETS.find(preset => {
+    const width = toPx(preset.width, preset.unit);
+    const height = toPx(preset.height, preset.unit);
+    return (matches(width, widthPx) && matches(height, heightPx))
+      || (matches(width, heightPx) && matches(height, widthPx));
+  });
+};
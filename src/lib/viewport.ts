@@ -0,0 +1,53 @@
+import { Bounds } from './geometry';
+
+// Stage position (screen pixels) and zoom factor
+export interface ViewState {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+const clampScale = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+// Zooms by `factor` keeping the layout point under `point` (screen pixels) in place
+export const zoomAt = (view: ViewState, point: { x: number; y: number }, factor: number): ViewState => {
+  const scale = clampScale(view.scale * factor);
+  const layoutX = (point.x - view.x) / view.scale;
+  const layoutY = (point.y - view.y) / view.scale;
+  return {
+    x: point.x - layoutX * scale,
+    y: point.y - layoutY * scale,
+    scale,
+  };
+};
+
+// View that shows `bounds` as large as possible inside the viewport
+export const fitBounds = (bounds: Bounds, viewportWidth: number, viewportHeight: number, padding = 40): ViewState => {
+  const scale = clampScale(Math.min(
+    (viewportWidth - padding * 2) / Math.max(1, bounds.width),
+    (viewportHeight - padding * 2) / Math.max(1, bounds.height)
+  ));
+  return {
+    x: viewportWidth / 2 - (bounds.x + bounds.width / 2) * scale,
+    y: viewportHeight / 2 - (bounds.y + bounds.height / 2) * scale,
+    scale,
+  };
+};
+
+// Moves the view so the layout point sits in the middle of the viewport
+export const centerOn = (view: ViewState, point: { x: number; y: number }, viewportWidth: number, viewportHeight: number): ViewState => ({
+  ...view,
+  x: viewportWidth / 2 - point.x * view.scale,
+  y: viewportHeight / 2 - point.y * view.scale,
+});
+
+// The part of the layout currently on screen
+export const getVisibleRect = (view: ViewState, viewportWidth: number, viewportHeight: number): Bounds => ({
+  x: -view.x / view.scale,
+  y: -view.y / view.scale,
+  width: viewportWidth / view.scale,
+  height: viewportHeight / view.scale,
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('is zero for no data', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  const read = async (entries: { name: string; data: Uint8Array }[]) =>
+    new DataView(await createZip(entries).arrayBuffer());
+
+  it('writes a local header followed by the name and stored data', async () => {
+    const data = encode('hello');
+    const zip = await read([{ name: 'a.pdf', data }]);
+    expect(zip.getUint32(0, true)).toBe(0x04034b50);
+    // Stored, UTF-8 names
+    expect(zip.getUint16(6, true)).toBe(0x0800);
+    expect(zip.getUint16(8, true)).toBe(0);
+    expect(zip.getUint32(14, true)).toBe(crc32(data));
+    expect(zip.getUint32(18, true)).toBe(5);
+    expect(zip.getUint32(22, true)).toBe(5);
+    expect(zip.getUint16(26, true)).toBe(5);
+    const bytes = new Uint8Array(zip.buffer);
+    expect(new TextDecoder().decode(bytes.subarray(30, 35))).toBe('a.pdf');
+    expect(new TextDecoder().decode(bytes.subarray(35, 40))).toBe('hello');
+  });
+
+  it('ends with a central directory pointing at each local header', async () => {
+    const entries = [
+      { name: 'part-1.pdf', data: encode('first') },
+      { name: 'part-2.pdf', data: encode('second part') },
+    ];
+    const zip = await read(entries);
+    const end = zip.byteLength - 22;
+    expect(zip.getUint32(end, true)).toBe(0x06054b50);
+    expect(zip.getUint16(end + 8, true)).toBe(2);
+    expect(zip.getUint16(end + 10, true)).toBe(2);
+
+    const directorySize = zip.getUint32(end + 12, true);
+    let position = zip.getUint32(end + 16, true);
+    expect(position + directorySize).toBe(end);
+
+    for (const entry of entries) {
+      expect(zip.getUint32(position, true)).toBe(0x02014b50);
+      expect(zip.getUint32(position + 16, true)).toBe(crc32(entry.data));
+      expect(zip.getUint32(position + 24, true)).toBe(entry.data.length);
+      const nameLength = zip.getUint16(position + 28, true);
+      const localOffset = zip.getUint32(position + 42, true);
+      expect(zip.getUint32(localOffset, true)).toBe(0x04034b50);
+      expect(zip.getUint32(localOffset + 14, true)).toBe(crc32(entry.data));
+      position += 46 + nameLength;
+    }
+  });
+
+  it('writes only the end record for no entries', async () => {
+    const zip = await read([]);
+    expect(zip.byteLength).toBe(22);
+    expect(zip.getUint32(0, true)).toBe(0x06054b50);
+  });
+});